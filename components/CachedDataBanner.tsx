@@ -0,0 +1,61 @@
+/**
+ * Cached Data Banner
+ *
+ * Notice shown while a panel is running on metadata from the offline cache
+ * (startup before revalidation finishes, or the source is unreachable).
+ */
+
+import React from "react";
+
+interface CachedDataBannerProps {
+  /** When the cached copy was fetched (epoch ms) */
+  cachedAt: number;
+  /** Current age of the model run, when known */
+  dataAgeMinutes?: number;
+  /** Optional retry handler */
+  onRetry?: () => void;
+}
+
+const formatAge = (minutes: number): string => {
+  if (minutes < 60) return `${Math.round(minutes)}m`;
+  if (minutes < 1440) return `${Math.floor(minutes / 60)}h`;
+  return `${Math.floor(minutes / 1440)}d`;
+};
+
+const formatCachedAt = (cachedAt: number): string =>
+  new Date(cachedAt).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    timeZone: "UTC",
+    timeZoneName: "short",
+  });
+
+const CachedDataBanner: React.FC<CachedDataBannerProps> = ({
+  cachedAt,
+  dataAgeMinutes,
+  onRetry,
+}) => {
+  const dataAge = dataAgeMinutes !== undefined && dataAgeMinutes >= 0 ? dataAgeMinutes : null;
+
+  return (
+    <div className="cached-banner">
+      <div>
+        <div className="cached-banner-title">
+          Showing cached data from {formatCachedAt(cachedAt)}
+        </div>
+        {dataAge !== null && (
+          <div className="cached-banner-detail">Model data is about {formatAge(dataAge)} old</div>
+        )}
+      </div>
+      {onRetry && (
+        <button onClick={onRetry} className="refresh-btn">
+          Retry
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default CachedDataBanner;
@@ -0,0 +1,57 @@
+/**
+ * Difference Legend
+ *
+ * Zero-centered diverging color bar for the run-to-run difference layer.
+ */
+
+import React, { useMemo } from "react";
+import type { ModelVariable } from "@/hooks/useModelMetadata";
+import { divergingColorStops } from "@/lib/colorRamp";
+
+interface DifferenceLegendProps {
+  variable: ModelVariable | null;
+  /** Symmetric range of the color bar (±maxAbs) */
+  maxAbs: number;
+  currentRun: string | null; // "18Z"
+  previousRun: string | null; // "12Z"
+  modelName?: string;
+}
+
+const DifferenceLegend: React.FC<DifferenceLegendProps> = ({
+  variable,
+  maxAbs,
+  currentRun,
+  previousRun,
+  modelName = "HRRR",
+}) => {
+  const gradient = useMemo(() => {
+    const stops = divergingColorStops(maxAbs)
+      .map((stop) => `${stop.color} ${((stop.value / maxAbs + 1) / 2) * 100}%`)
+      .join(", ");
+    return `linear-gradient(to right, ${stops})`;
+  }, [maxAbs]);
+
+  if (!variable) return null;
+
+  return (
+    <div className="weather-legend">
+      <div className="legend-title">Δ {variable.name}</div>
+
+      <div className="legend-gradient" style={{ background: gradient }} />
+      <div className="legend-labels">
+        <span>-{maxAbs}{variable.units}</span>
+        <span>0</span>
+        <span>+{maxAbs}{variable.units}</span>
+      </div>
+
+      <div className="legend-meta">
+        {currentRun && previousRun && (
+          <div>{modelName} {currentRun} − {previousRun}</div>
+        )}
+        <div>Same valid time</div>
+      </div>
+    </div>
+  );
+};
+
+export default DifferenceLegend;
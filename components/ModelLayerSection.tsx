@@ -0,0 +1,715 @@
+/**
+ * Model Layer Section
+ *
+ * Control panel section for one model from the registry. Fetches the model's
+ * metadata, preloads a raster layer per forecast hour and renders the
+ * run, variable, forecast and opacity controls. In compare mode the layers
+ * show the difference between two runs at the same valid time.
+ *
+ * All sections follow one shared valid time: moving one section's forecast
+ * snaps the others to their nearest frame.
+ *
+ * When auto-refresh finds a new run, its layers are loaded in the background
+ * and swapped in at the same valid time (automatically or after the user
+ * confirms, per their setting).
+ *
+ * The legend, loading bar and run toast are portaled into overlay containers
+ * owned by ParticleApp so sections stack instead of overlapping.
+ */
+
+import React, { useState, useEffect, useRef, useMemo, useCallback } from "react";
+import { createPortal } from "react-dom";
+import type { MapRef } from "react-map-gl";
+import { useModelMetadata, buildTileUrl } from "@/hooks/useModelMetadata";
+import type { ModelRun, NewRunEvent } from "@/hooks/useModelMetadata";
+import { usePreloadedRasterLayers } from "@/hooks/usePreloadedRasterLayers";
+import { useTilePreloader } from "@/hooks/useTilePreloader";
+import type { NewRunBehavior } from "@/hooks/useNewRunBehavior";
+import {
+  getForecastHoursForRun,
+  formatRunTimestamp,
+  modelRunFromTimestamp,
+} from "@/hooks/useWeatherMetadata";
+import { formatForecastHour } from "@/lib/modelRegistry";
+import { defaultDifferenceRange } from "@/lib/colorRamp";
+import {
+  alignForecastHour,
+  createDifferenceSource,
+  hoursBetweenRuns,
+} from "@/lib/runDifference";
+import { findNearestFrame, formatUtcTime, getValidTime } from "@/lib/validTime";
+import { formatAgeShort } from "@/lib/dataFreshness";
+import ForecastAnimationController from "@/components/ForecastAnimationController";
+import WeatherLegend from "@/components/WeatherLegend";
+import DifferenceLegend from "@/components/DifferenceLegend";
+import ValidationIssueList from "@/components/ValidationIssueList";
+import RunUpdateToast from "@/components/RunUpdateToast";
+import CachedDataBanner from "@/components/CachedDataBanner";
+
+interface ModelLayerSectionProps {
+  modelId: string;
+  mapRef: React.RefObject<MapRef>;
+  /** Whether the map style has finished loading (layers can be added) */
+  mapLoaded: boolean;
+  /** Overlay element the legend is rendered into */
+  legendContainer: HTMLElement | null;
+  /** Overlay element the preload progress bar is rendered into */
+  loadingContainer: HTMLElement | null;
+  /** Overlay element the new-run toast is rendered into */
+  toastContainer: HTMLElement | null;
+  /** Switch to new model runs automatically or ask first */
+  newRunBehavior: NewRunBehavior;
+  /** Valid time shared by all sections (epoch ms, null until a forecast is chosen) */
+  validTime: number | null;
+  onValidTimeChange: (validTime: number) => void;
+}
+
+interface RunNotice {
+  previousRun: ModelRun;
+  currentRun: ModelRun;
+  status: "available" | "switched";
+}
+
+const DEFAULT_SOURCE_CONFIG = { tileSize: 256 };
+
+const ModelLayerSection: React.FC<ModelLayerSectionProps> = ({
+  modelId,
+  mapRef,
+  mapLoaded,
+  legendContainer,
+  loadingContainer,
+  toastContainer,
+  newRunBehavior,
+  validTime,
+  onValidTimeChange,
+}) => {
+  const [runNotice, setRunNotice] = useState<RunNotice | null>(null);
+  const handleNewRun = useCallback((event: NewRunEvent) => {
+    setRunNotice({
+      previousRun: event.previousRun,
+      currentRun: event.currentRun,
+      status: "available",
+    });
+  }, []);
+
+  const { model, metadata, loading, error, validationIssues, cachedAt, refresh, freshness } =
+    useModelMetadata(modelId, { onNewRun: handleNewRun });
+  const section = model.section ?? { title: model.displayName, layerIdPrefix: model.id };
+
+  const [enabled, setEnabled] = useState(false);
+  const [selectedVariableId, setSelectedVariableId] = useState<string | null>(null);
+  // Historical run chosen from available_runs (null follows the latest run)
+  const [selectedRunTimestamp, setSelectedRunTimestamp] = useState<string | null>(null);
+  // Run shown while following the latest run; lags behind until a new run is swapped in
+  const [followedRunTimestamp, setFollowedRunTimestamp] = useState<string | null>(null);
+  // When the followed run was pinned from offline-cached metadata, the time it was cached
+  const [followedCachedAt, setFollowedCachedAt] = useState<number | null>(null);
+  // User accepted the new run in "prompt" mode
+  const [swapRequested, setSwapRequested] = useState(false);
+  // Compare mode: show (selected run - older run) at matching valid times
+  const [compareEnabled, setCompareEnabled] = useState(false);
+  const [compareRunTimestamp, setCompareRunTimestamp] = useState<string | null>(null);
+  const [selectedForecast, setSelectedForecast] = useState<string>(() =>
+    formatForecastHour(model, 0)
+  );
+  const [opacity, setOpacity] = useState<number>(0.7);
+
+  // Auto-select first variable when metadata loads
+  useEffect(() => {
+    if (metadata && metadata.variables.length > 0 && !selectedVariableId) {
+      setSelectedVariableId(metadata.variables[0].id);
+    }
+  }, [metadata, selectedVariableId]);
+
+  // Get selected variable details (must be defined before buildTileUrlForHook)
+  const selectedVariable = useMemo(() => {
+    if (!metadata || !selectedVariableId) return null;
+    return metadata.variables.find((v) => v.id === selectedVariableId) || null;
+  }, [metadata, selectedVariableId]);
+
+  // Preloaded raster layers for instant forecast transitions
+  const sourceConfig = useMemo(() => {
+    if (!metadata) return null;
+    return {
+      tileSize: metadata.tiles.tile_size || 256,
+      minzoom: metadata.tiles.min_zoom || 0,
+      maxzoom: metadata.tiles.max_zoom || 8,
+      bounds: metadata.tiles.bounds as [number, number, number, number] | undefined,
+    };
+  }, [metadata]);
+
+  // Runs the selected variable can be shown for (newest first)
+  const availableRuns = useMemo(() => {
+    const runs = metadata?.available_runs ?? [];
+    if (!selectedVariable?.timestamps) return runs;
+    return runs.filter((run) => selectedVariable.timestamps!.includes(run.timestamp));
+  }, [metadata, selectedVariable]);
+
+  // Pin the followed run when the variable changes (new runs are swapped in explicitly)
+  const latestRunTimestamp = selectedVariable?.latest_timestamp ?? null;
+  useEffect(() => {
+    setFollowedRunTimestamp(latestRunTimestamp);
+    setFollowedCachedAt(cachedAt);
+  }, [selectedVariableId]); // Only re-pin on variable change
+
+  // A run pinned from the offline cache follows the first network revalidation
+  // (not a new run - the cached copy was just out of date)
+  const followsCachedRun = followedCachedAt !== null && cachedAt === null;
+  useEffect(() => {
+    if (!followsCachedRun) return;
+    setFollowedRunTimestamp(latestRunTimestamp);
+    setFollowedCachedAt(null);
+  }, [followsCachedRun]); // Only re-pin once the network result arrives
+
+  // Fall back to the latest run if the selected one has aged out of available_runs
+  const isHistoricalRun =
+    selectedRunTimestamp !== null &&
+    availableRuns.some((run) => run.timestamp === selectedRunTimestamp);
+  const liveRunTimestamp = (followsCachedRun ? null : followedRunTimestamp) ?? latestRunTimestamp;
+  const runTimestamp = isHistoricalRun ? selectedRunTimestamp : liveRunTimestamp;
+
+  // Newer run waiting to be swapped in
+  const pendingRunTimestamp =
+    !isHistoricalRun && latestRunTimestamp && liveRunTimestamp !== latestRunTimestamp
+      ? latestRunTimestamp
+      : null;
+
+  // Forecast hours of any run (older runs may be partially purged)
+  const getRunForecastHours = useCallback(
+    (timestamp: string | null) => {
+      if (!metadata) return [];
+      if (!timestamp || timestamp === latestRunTimestamp) return metadata.forecast_hours;
+      const runHours = getForecastHoursForRun(metadata, timestamp);
+      return runHours.length > 0 ? runHours : metadata.forecast_hours;
+    },
+    [metadata, latestRunTimestamp]
+  );
+
+  const runForecastHours = useMemo(
+    () => getRunForecastHours(runTimestamp),
+    [getRunForecastHours, runTimestamp]
+  );
+
+  // Older runs the active run can be compared against (newest first)
+  const compareCandidates = useMemo(() => {
+    if (!runTimestamp || (selectedVariable?.color_stops?.length ?? 0) < 2) return [];
+    return availableRuns.filter((run) => (hoursBetweenRuns(runTimestamp, run.timestamp) ?? 0) > 0);
+  }, [availableRuns, runTimestamp, selectedVariable]);
+
+  const compareRun = compareEnabled
+    ? compareCandidates.find((run) => run.timestamp === compareRunTimestamp) ??
+      compareCandidates[0] ??
+      null
+    : null;
+  const compareOffsetHours =
+    compareRun && runTimestamp ? hoursBetweenRuns(runTimestamp, compareRun.timestamp) : null;
+  const isComparing = compareRun !== null && compareOffsetHours !== null;
+
+  // In compare mode only hours with a matching valid time in the older run are shown
+  const forecastHours = useMemo(() => {
+    if (!isComparing) return runForecastHours;
+    return runForecastHours.filter(
+      (hour) =>
+        alignForecastHour(model, hour, compareOffsetHours!, compareRun!.forecast_hours) !== null
+    );
+  }, [isComparing, runForecastHours, model, compareOffsetHours, compareRun]);
+
+  const differenceRange = useMemo(
+    () => defaultDifferenceRange(selectedVariable?.color_stops ?? []),
+    [selectedVariable]
+  );
+
+  // Validity times in the animation controller are computed from this run
+  const modelRun = useMemo(() => {
+    if (!metadata) return null;
+    if (!runTimestamp || runTimestamp === latestRunTimestamp) return metadata.model_run;
+    return modelRunFromTimestamp(runTimestamp) ?? metadata.model_run;
+  }, [metadata, runTimestamp, latestRunTimestamp]);
+
+  // Frame of the active run nearest the shared valid time
+  const sharedFrame = useMemo(() => {
+    if (validTime === null || !runTimestamp || forecastHours.length === 0) return null;
+    return findNearestFrame(model, runTimestamp, validTime, forecastHours);
+  }, [model, runTimestamp, validTime, forecastHours]);
+
+  // Follow the shared valid time; otherwise keep the selection inside the run's forecast hours
+  useEffect(() => {
+    if (sharedFrame) {
+      if (sharedFrame.forecastHour !== selectedForecast) {
+        setSelectedForecast(sharedFrame.forecastHour);
+      }
+    } else if (forecastHours.length > 0 && !forecastHours.includes(selectedForecast)) {
+      setSelectedForecast(forecastHours[0]);
+    }
+  }, [sharedFrame, forecastHours, selectedForecast]);
+
+  // User picked a forecast hour: move the shared valid time with it
+  const handleForecastChange = useCallback(
+    (forecast: string) => {
+      setSelectedForecast(forecast);
+      const frameTime = runTimestamp ? getValidTime(runTimestamp, forecast) : null;
+      if (frameTime) {
+        onValidTimeChange(frameTime.getTime());
+      }
+    },
+    [runTimestamp, onValidTimeChange]
+  );
+
+  // Build tile URL helper for preloaded layers hook
+  const buildTileUrlForHook = useCallback(
+    (forecast: string) => {
+      if (!metadata || !selectedVariable || !runTimestamp) return null;
+      return buildTileUrl(metadata, selectedVariable.id, runTimestamp, forecast);
+    },
+    [metadata, selectedVariable, runTimestamp]
+  );
+
+  // Difference sources replace the URL sources while comparing
+  const buildDifferenceSource = useMemo(() => {
+    if (!isComparing || !metadata || !selectedVariable || !runTimestamp) return undefined;
+
+    return (forecast: string, sourceId: string) => {
+      const previousForecast = alignForecastHour(
+        model,
+        forecast,
+        compareOffsetHours!,
+        compareRun!.forecast_hours
+      );
+      if (!previousForecast) return null;
+
+      return createDifferenceSource(sourceId, {
+        currentTileUrl: buildTileUrl(metadata, selectedVariable.id, runTimestamp, forecast),
+        previousTileUrl: buildTileUrl(
+          metadata,
+          selectedVariable.id,
+          compareRun!.timestamp,
+          previousForecast
+        ),
+        colorStops: selectedVariable.color_stops ?? [],
+        maxAbs: differenceRange,
+        ...sourceConfig,
+      });
+    };
+  }, [
+    isComparing,
+    metadata,
+    selectedVariable,
+    runTimestamp,
+    model,
+    compareOffsetHours,
+    compareRun,
+    differenceRange,
+    sourceConfig,
+  ]);
+
+  const {
+    initialize,
+    setActiveForecast,
+    isReady,
+    loadProgress,
+    loadedCount,
+    totalCount,
+    cleanup,
+    setOpacity: setLayerOpacity,
+    reinitialize,
+    prepareNext,
+    commitNext,
+    isNextReady,
+    nextLoadProgress,
+  } = usePreloadedRasterLayers({
+    mapRef,
+    sourceConfig: sourceConfig || DEFAULT_SOURCE_CONFIG,
+    baseOpacity: opacity,
+    buildTileUrl: buildTileUrlForHook,
+    buildCustomSource: buildDifferenceSource,
+    forecastHours,
+    enabled,
+    layerIdPrefix: section.layerIdPrefix,
+  });
+
+  // Tile preloader configuration
+  // Use zoom level 4 for faster preloading (only ~8 tiles per forecast vs ~28 at zoom 5)
+  const preloadConfig = useMemo(() => {
+    if (!section.preloadTiles || isComparing || !metadata || !selectedVariable || !runTimestamp) {
+      return null;
+    }
+    return {
+      urlTemplate: metadata.tiles.url_template,
+      variable: selectedVariable.id,
+      timestamp: runTimestamp,
+      forecastHours,
+      zoomLevel: 4,
+    };
+  }, [section.preloadTiles, isComparing, metadata, selectedVariable, runTimestamp, forecastHours]);
+
+  const { preloadTiles, progress: preloadProgress } = useTilePreloader(preloadConfig);
+
+  // Preload tiles when variable or run changes
+  useEffect(() => {
+    if (preloadConfig && enabled) {
+      preloadTiles();
+    }
+  }, [preloadConfig, enabled, preloadTiles]);
+
+  // Switch active forecast when slider changes (instant - all layers pre-loaded)
+  useEffect(() => {
+    if (isReady && enabled) {
+      setActiveForecast(selectedForecast);
+    }
+  }, [selectedForecast, isReady, enabled, setActiveForecast]);
+
+  // Sync opacity changes with the preloaded layers
+  useEffect(() => {
+    setLayerOpacity(opacity);
+  }, [opacity, setLayerOpacity]);
+
+  // Track if preloaded layers have been initialized, and for which variable/run
+  const initializedRef = useRef(false);
+  const layerKey = `${selectedVariableId}|${runTimestamp}|${isComparing ? compareRun!.timestamp : ""}`;
+  const builtLayerKeyRef = useRef<string | null>(null);
+
+  // Cleanup layers when disabled
+  useEffect(() => {
+    if (!enabled) {
+      cleanup();
+      initializedRef.current = false;
+      builtLayerKeyRef.current = null;
+    }
+  }, [enabled, cleanup]);
+
+  // Reinitialize layers when variable, run or comparison run changes
+  useEffect(() => {
+    // Skip if not built yet, or already showing this variable/run (after a hot swap)
+    if (!enabled || !runTimestamp || !initializedRef.current) return;
+    if (builtLayerKeyRef.current === layerKey) return;
+
+    builtLayerKeyRef.current = layerKey;
+    reinitialize();
+  }, [layerKey]); // Only trigger on variable / run changes
+
+  // Initialize layers once the map and metadata are both available
+  useEffect(() => {
+    if (
+      mapLoaded &&
+      enabled &&
+      metadata &&
+      runTimestamp &&
+      !initializedRef.current
+    ) {
+      initialize();
+      initializedRef.current = true;
+      builtLayerKeyRef.current = layerKey;
+    }
+  }, [mapLoaded, metadata, runTimestamp, enabled, initialize]);
+
+  // ---------------------------------------------------------------------------
+  // New run hot swap
+  // ---------------------------------------------------------------------------
+
+  // Forecast hour of the target run at the currently selected valid time
+  const alignSelectedForecast = useCallback(
+    (targetRunTimestamp: string) => {
+      const selectedTime = runTimestamp ? getValidTime(runTimestamp, selectedForecast) : null;
+      if (!selectedTime) return selectedForecast;
+      const frame = findNearestFrame(
+        model,
+        targetRunTimestamp,
+        selectedTime,
+        getRunForecastHours(targetRunTimestamp)
+      );
+      return frame?.forecastHour ?? selectedForecast;
+    },
+    [model, runTimestamp, selectedForecast, getRunForecastHours]
+  );
+
+  const shouldSwap =
+    pendingRunTimestamp !== null && (newRunBehavior === "auto" || swapRequested);
+
+  // Background loading only makes sense while the current layers are visible;
+  // otherwise (disabled, still loading, comparing) switch directly
+  const canHotSwap = enabled && isReady && !isComparing;
+
+  useEffect(() => {
+    if (shouldSwap && !canHotSwap) {
+      setSelectedForecast(alignSelectedForecast(pendingRunTimestamp!));
+      setFollowedRunTimestamp(pendingRunTimestamp);
+      setSwapRequested(false);
+      setRunNotice((notice) => notice && { ...notice, status: "switched" });
+    }
+  }, [shouldSwap, canHotSwap]); // Only react to the swap decision
+
+  // Load the new run's layers hidden behind the current ones
+  const nextLayerKey =
+    shouldSwap && canHotSwap ? `${selectedVariableId}|${pendingRunTimestamp}` : null;
+  useEffect(() => {
+    if (!nextLayerKey || !metadata || !selectedVariable) return;
+
+    const nextRun = pendingRunTimestamp!;
+    prepareNext({
+      buildTileUrl: (forecast) => buildTileUrl(metadata, selectedVariable.id, nextRun, forecast),
+      forecastHours: getRunForecastHours(nextRun),
+    });
+  }, [nextLayerKey]); // Only trigger when a new run needs loading
+
+  // Swap once every hour of the new run has loaded, keeping the valid time
+  useEffect(() => {
+    if (!isNextReady || !pendingRunTimestamp) return;
+
+    const forecast = alignSelectedForecast(pendingRunTimestamp);
+    commitNext(forecast);
+    builtLayerKeyRef.current = `${selectedVariableId}|${pendingRunTimestamp}|`;
+    setSelectedForecast(forecast);
+    setFollowedRunTimestamp(pendingRunTimestamp);
+    setSwapRequested(false);
+    setRunNotice((notice) => notice && { ...notice, status: "switched" });
+  }, [isNextReady]); // Only trigger when the background set finishes loading
+
+  const handleSwitchRun = useCallback(() => {
+    if (isHistoricalRun) {
+      setSelectedRunTimestamp(null);
+      setFollowedRunTimestamp(latestRunTimestamp);
+      setFollowedCachedAt(cachedAt);
+      setRunNotice(null);
+    } else {
+      setSwapRequested(true);
+    }
+  }, [isHistoricalRun, latestRunTimestamp, cachedAt]);
+
+  // Keep the cached-data banner up until the followed run comes from fresh metadata
+  const displayedCachedAt = cachedAt ?? followedCachedAt;
+
+  const pendingRun = pendingRunTimestamp ? modelRunFromTimestamp(pendingRunTimestamp) : null;
+
+  return (
+    <div className="panel-section">
+      <div className="section-header">
+        <span className="section-title">{section.title}</span>
+        <button
+          onClick={() => setEnabled(!enabled)}
+          className={`toggle-btn ${enabled ? 'active' : 'inactive'}`}
+        >
+          {enabled ? "ON" : "OFF"}
+        </button>
+      </div>
+
+      {loading && !metadata && (
+        <div className="info-card">Loading {model.displayName} data...</div>
+      )}
+
+      {error && !metadata && (
+        <div className="info-card" style={{ borderColor: 'rgba(244, 67, 54, 0.3)' }}>
+          <span style={{ color: '#f44336' }}>Error loading {model.displayName} data</span>
+          <button onClick={refresh} className="refresh-btn" style={{ marginLeft: '8px' }}>
+            Retry
+          </button>
+          <ValidationIssueList issues={validationIssues} />
+        </div>
+      )}
+
+      {metadata && enabled && (
+        <>
+          {displayedCachedAt !== null && (
+            <CachedDataBanner
+              cachedAt={displayedCachedAt}
+              dataAgeMinutes={freshness?.runAgeMinutes}
+              onRetry={loading ? undefined : refresh}
+            />
+          )}
+
+          {/* Data Freshness */}
+          <div className="info-card">
+            <div className="info-label">Model Run</div>
+            <div className="info-value">
+              {model.displayName} {modelRun?.cycle_formatted || "..."}
+              {pendingRun && !shouldSwap && (
+                <button onClick={handleSwitchRun} className="refresh-btn" title="Switch to the new run">
+                  {pendingRun.cycle_formatted} available
+                </button>
+              )}
+              {isHistoricalRun ? (
+                <span className="status-badge historical">Archived</span>
+              ) : (
+                freshness && (
+                  <span
+                    className={`status-badge ${freshness.status}`}
+                    title={
+                      freshness.publishedAgeMinutes !== null
+                        ? `Published ${formatAgeShort(freshness.publishedAgeMinutes)}`
+                        : undefined
+                    }
+                  >
+                    {formatAgeShort(freshness.runAgeMinutes)}
+                  </span>
+                )
+              )}
+            </div>
+            {!isHistoricalRun && freshness?.status === "delayed" && (
+              <div className="freshness-note">
+                Pipeline may be delayed: next run was expected by{" "}
+                {formatUtcTime(new Date(freshness.nextRunDueAt))}
+              </div>
+            )}
+            {availableRuns.length > 1 && (
+              <select
+                className="run-select"
+                value={isHistoricalRun ? selectedRunTimestamp! : ""}
+                onChange={(e) => setSelectedRunTimestamp(e.target.value || null)}
+              >
+                <option value="">
+                  Latest{selectedVariable?.latest_timestamp
+                    ? ` (${formatRunTimestamp(selectedVariable.latest_timestamp)})`
+                    : ""}
+                </option>
+                {availableRuns
+                  .filter((run) => run.timestamp !== selectedVariable?.latest_timestamp)
+                  .map((run) => (
+                    <option key={run.timestamp} value={run.timestamp}>
+                      {formatRunTimestamp(run.timestamp)} · {run.forecast_hours.length} hrs
+                    </option>
+                  ))}
+              </select>
+            )}
+            {compareCandidates.length > 0 && (
+              <div className="compare-row">
+                <button
+                  onClick={() => setCompareEnabled(!compareEnabled)}
+                  className={`compare-btn ${isComparing ? 'active' : ''}`}
+                  title="Show how the forecast changed since an earlier run"
+                >
+                  Compare runs
+                </button>
+                {isComparing && (
+                  <select
+                    className="run-select"
+                    value={compareRun!.timestamp}
+                    onChange={(e) => setCompareRunTimestamp(e.target.value)}
+                  >
+                    {compareCandidates.map((run) => (
+                      <option key={run.timestamp} value={run.timestamp}>
+                        vs {formatRunTimestamp(run.timestamp)}
+                      </option>
+                    ))}
+                  </select>
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* Variable Buttons */}
+          <div className="variable-grid">
+            {metadata.variables.map((variable) => (
+              <button
+                key={variable.id}
+                onClick={() => setSelectedVariableId(variable.id)}
+                className={`variable-btn ${selectedVariableId === variable.id ? 'selected' : ''}`}
+                title={variable.description}
+              >
+                <span>{variable.name}</span>
+                {variable.units && <span className="units">({variable.units})</span>}
+              </button>
+            ))}
+          </div>
+
+          {/* Forecast Animation Controller */}
+          <ForecastAnimationController
+            forecastHours={forecastHours}
+            selectedForecast={selectedForecast}
+            onForecastChange={handleForecastChange}
+            modelRun={modelRun}
+            preloadProgress={preloadConfig ? preloadProgress : 100}
+          />
+
+          {/* Nearest frame doesn't match the shared valid time (e.g. 3-hourly steps) */}
+          {sharedFrame && sharedFrame.offsetMinutes !== 0 && (
+            <div className="valid-time-note">
+              Nearest frame is {Math.abs(sharedFrame.offsetMinutes / 60)}h{" "}
+              {sharedFrame.offsetMinutes > 0 ? "after" : "before"} the selected time
+            </div>
+          )}
+
+          {/* Opacity Slider */}
+          <div className="opacity-section">
+            <div className="opacity-header">
+              <span className="opacity-label">Layer Opacity</span>
+              <span className="opacity-value">{Math.round(opacity * 100)}%</span>
+            </div>
+            <input
+              type="range"
+              min="0"
+              max="100"
+              value={opacity * 100}
+              onChange={(e) => setOpacity(parseInt(e.target.value) / 100)}
+            />
+          </div>
+        </>
+      )}
+
+      {/* Legend */}
+      {legendContainer && enabled && selectedVariable && isComparing &&
+        createPortal(
+          <DifferenceLegend
+            variable={selectedVariable}
+            maxAbs={differenceRange}
+            currentRun={modelRun?.cycle_formatted || null}
+            previousRun={modelRunFromTimestamp(compareRun!.timestamp)?.cycle_formatted || null}
+            modelName={model.displayName}
+          />,
+          legendContainer
+        )}
+      {legendContainer && enabled && selectedVariable && !isComparing &&
+        createPortal(
+          <WeatherLegend
+            variable={selectedVariable}
+            modelRun={modelRun?.cycle_formatted || null}
+            ageMinutes={freshness?.runAgeMinutes ?? -1}
+            modelName={model.displayName}
+          />,
+          legendContainer
+        )}
+
+      {/* Preloading indicator */}
+      {loadingContainer && enabled && !isReady && totalCount > 0 &&
+        createPortal(
+          <div className="loading-bar">
+            <div className="loading-text">
+              Loading {model.displayName} forecasts: {loadedCount}/{totalCount}
+            </div>
+            <div className="progress-bar">
+              <div className="progress-fill" style={{ width: `${loadProgress}%` }} />
+            </div>
+          </div>,
+          loadingContainer
+        )}
+
+      {/* New run notice */}
+      {toastContainer && enabled && runNotice &&
+        createPortal(
+          runNotice.status === "switched" ? (
+            <RunUpdateToast
+              title={`Switched to ${model.displayName} ${runNotice.currentRun.cycle_formatted} run`}
+              detail={`Was ${runNotice.previousRun.cycle_formatted} · same valid time kept`}
+              onDismiss={() => setRunNotice(null)}
+            />
+          ) : shouldSwap && canHotSwap ? (
+            <RunUpdateToast
+              title={`Loading ${model.displayName} ${runNotice.currentRun.cycle_formatted} run`}
+              detail={`Still showing ${modelRun?.cycle_formatted ?? "the previous run"}`}
+              progress={nextLoadProgress}
+              onDismiss={() => setRunNotice(null)}
+            />
+          ) : pendingRunTimestamp || isHistoricalRun ? (
+            <RunUpdateToast
+              title={`New ${model.displayName} run available: ${runNotice.currentRun.cycle_formatted}`}
+              detail={`Showing ${modelRun?.cycle_formatted ?? "an older run"}`}
+              actionLabel={isHistoricalRun ? "View" : "Switch"}
+              onAction={handleSwitchRun}
+              onDismiss={() => setRunNotice(null)}
+            />
+          ) : null,
+          toastContainer
+        )}
+    </div>
+  );
+};
+
+export default ModelLayerSection;
@@ -0,0 +1,49 @@
+/**
+ * Run Update Toast
+ *
+ * Dismissible notice shown when a model section detects a new model run,
+ * while the new run loads in the background, and after it was swapped in.
+ */
+
+import React from "react";
+
+interface RunUpdateToastProps {
+  title: string;
+  detail?: string;
+  /** Background load progress (0-100), shows a progress bar when set */
+  progress?: number;
+  actionLabel?: string;
+  onAction?: () => void;
+  onDismiss: () => void;
+}
+
+const RunUpdateToast: React.FC<RunUpdateToastProps> = ({
+  title,
+  detail,
+  progress,
+  actionLabel,
+  onAction,
+  onDismiss,
+}) => (
+  <div className="run-toast" role="status">
+    <div className="run-toast-body">
+      <div className="run-toast-title">{title}</div>
+      {detail && <div className="run-toast-detail">{detail}</div>}
+      {progress !== undefined && (
+        <div className="progress-bar">
+          <div className="progress-fill" style={{ width: `${progress}%` }} />
+        </div>
+      )}
+    </div>
+    {actionLabel && onAction && (
+      <button onClick={onAction} className="refresh-btn">
+        {actionLabel}
+      </button>
+    )}
+    <button onClick={onDismiss} className="run-toast-close" aria-label="Dismiss">
+      ✕
+    </button>
+  </div>
+);
+
+export default RunUpdateToast;
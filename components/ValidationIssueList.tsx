@@ -0,0 +1,29 @@
+/**
+ * Validation Issue List
+ *
+ * Compact list of metadata validation problems (field path + message).
+ */
+
+import React from "react";
+import type { ValidationIssue } from "@/lib/metadataValidation";
+
+const MAX_VISIBLE_ISSUES = 3;
+
+const ValidationIssueList: React.FC<{ issues: ValidationIssue[] }> = ({ issues }) => {
+  if (issues.length === 0) return null;
+
+  return (
+    <ul className="validation-issues">
+      {issues.slice(0, MAX_VISIBLE_ISSUES).map((issue) => (
+        <li key={`${issue.path}:${issue.message}`}>
+          <code>{issue.path}</code> {issue.message}
+        </li>
+      ))}
+      {issues.length > MAX_VISIBLE_ISSUES && (
+        <li>+{issues.length - MAX_VISIBLE_ISSUES} more</li>
+      )}
+    </ul>
+  );
+};
+
+export default ValidationIssueList;
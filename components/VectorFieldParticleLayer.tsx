@@ -0,0 +1,432 @@
+'use client';
+
+import React, { useEffect, useRef, useCallback, useState } from 'react';
+import { MapboxOverlay } from '@deck.gl/mapbox';
+import { PathLayer } from '@deck.gl/layers';
+import type { MapRef } from 'react-map-gl';
+import type { SamplingMode } from '@/lib/windField';
+import { profileColor } from '@/lib/vectorField';
+import type { VectorFieldData, VectorFieldProfile } from '@/lib/vectorField';
+import { ParticleSimulation } from '@/lib/particleSimulation';
+import type { DensityMask, Integrator, SpawnStrategy } from '@/lib/particleSimulation';
+
+interface ViewBounds {
+  west: number;
+  east: number;
+  south: number;
+  north: number;
+}
+
+export interface VectorFieldParticleLayerProps {
+  mapRef: React.RefObject<MapRef>;
+  /** deck.gl layer id (distinct per instance when several fields are shown) */
+  id?: string;
+  /** U/V field to animate (m/s, colored and scaled by `profile`) */
+  data: VectorFieldData | null;
+  /** Color ramp, speed range and particle speed for this kind of flow (null until known) */
+  profile: VectorFieldProfile | null;
+  enabled?: boolean;
+  baseParticleCount?: number;
+  lineWidth?: number;
+  speedFactor?: number;
+  trailLength?: number;
+  maxAge?: number;
+  opacity?: number;
+  sampling?: SamplingMode;
+  /** Advection scheme: 'rk4' (default) follows curved flow best, 'euler' is cheapest */
+  integrator?: Integrator;
+  /** Where new particles appear (default 'screen': even density on the map) */
+  spawn?: SpawnStrategy;
+  /** Relative spawn density for spawn='mask' */
+  densityMask?: DensityMask;
+  /** Fewer particles when the view is only partly over the data, keeping density even (default true) */
+  adaptiveCount?: boolean;
+  /** Color trails by sustained speed or by gust (falls back to speed without a gust field) */
+  colorBy?: 'speed' | 'gust';
+  /** Fractional forecast hour; particles advect through the blend of data.field and data.next */
+  forecastTime?: number;
+  /** Fixed random seed for reproducible particle placement */
+  seed?: number;
+}
+
+// Longest time the displayed forecast time takes to catch up with a new target
+const MAX_TIME_TWEEN_MS = 1500;
+
+interface TimeTween {
+  from: number;
+  target: number;
+  startedAt: number;
+  durationMs: number;
+  lastTargetAt: number | null;
+}
+
+// Displayed forecast time at `now` (eases linearly from `from` to `target`)
+function tweenTime(tween: TimeTween, now: number): number {
+  if (tween.durationMs <= 0) return tween.target;
+  const progress = Math.min(1, (now - tween.startedAt) / tween.durationMs);
+  return tween.from + (tween.target - tween.from) * progress;
+}
+
+interface BinaryPathData {
+  length: number;
+  startIndices: Uint32Array;
+  attributes: {
+    getPath: { value: Float32Array; size: 2 };
+    getColor: { value: Uint8Array; size: 4 };
+  };
+}
+
+// Flat trail geometry for PathLayer's binary mode, reused across frames
+interface TrailBuffers {
+  positions: Float32Array; // lng/lat per vertex, each trail from its head
+  colors: Uint8Array; // RGBA per vertex, alpha fading toward the tail
+  startIndices: Uint32Array; // First vertex of each trail, then the end of the last one
+  pathCount: number;
+  vertexCount: number;
+  data: BinaryPathData; // Same object until the buffers grow, so deck.gl keeps its layout
+}
+
+// Write every drawable trail into the buffers, growing them only when the simulation outgrows them
+function fillTrailBuffers(
+  buffers: TrailBuffers | null,
+  simulation: ParticleSimulation,
+  profile: VectorFieldProfile,
+  colorBy: 'speed' | 'gust'
+): TrailBuffers {
+  const { count, trail, trailCount, trailCapacity, speed, gust } = simulation;
+  const maxVertices = count * trailCapacity;
+
+  if (!buffers || buffers.startIndices.length < count + 1 || buffers.positions.length < maxVertices * 2) {
+    const positions = new Float32Array(maxVertices * 2);
+    const colors = new Uint8Array(maxVertices * 4);
+    const startIndices = new Uint32Array(count + 1);
+    buffers = {
+      positions,
+      colors,
+      startIndices,
+      pathCount: 0,
+      vertexCount: 0,
+      data: {
+        length: 0,
+        startIndices,
+        attributes: {
+          getPath: { value: positions, size: 2 },
+          getColor: { value: colors, size: 4 },
+        },
+      },
+    };
+  }
+
+  const { positions, colors, startIndices } = buffers;
+  let pathCount = 0;
+  let vertex = 0;
+
+  for (let p = 0; p < count; p++) {
+    const trailLen = trailCount[p];
+    if (trailLen < 2) continue;
+
+    // Speed (or gust) at the particle head for color
+    const [r, g, b] = profileColor(profile, colorBy === 'gust' ? gust[p] : speed[p]);
+    startIndices[pathCount++] = vertex;
+
+    for (let i = 0; i < trailLen; i++, vertex++) {
+      const point = simulation.trailIndex(p, i);
+      positions[vertex * 2] = trail[point];
+      positions[vertex * 2 + 1] = trail[point + 1];
+
+      // Alpha fades from 255 at head (i=0) to near 0 at tail
+      colors[vertex * 4] = r;
+      colors[vertex * 4 + 1] = g;
+      colors[vertex * 4 + 2] = b;
+      colors[vertex * 4 + 3] = Math.floor(255 * Math.pow(1 - i / trailLen, 1.5));
+    }
+  }
+
+  // PathLayer reads the vertex count from the entry after the last trail
+  startIndices[pathCount] = vertex;
+  buffers.pathCount = pathCount;
+  buffers.vertexCount = vertex;
+  buffers.data.length = pathCount;
+  return buffers;
+}
+
+export function VectorFieldParticleLayer({
+  mapRef,
+  id = 'vector-field-trails',
+  data: fieldData,
+  profile,
+  enabled = true,
+  baseParticleCount = 4000,
+  lineWidth = 1.5,
+  speedFactor = 0.08,
+  trailLength = 15,
+  maxAge = 80,
+  opacity = 0.7,
+  sampling = 'bilinear',
+  integrator = 'rk4',
+  spawn = 'screen',
+  densityMask,
+  adaptiveCount = true,
+  colorBy = 'speed',
+  forecastTime,
+  seed,
+}: VectorFieldParticleLayerProps) {
+  const overlayRef = useRef<MapboxOverlay | null>(null);
+  const [simulation] = useState(() => new ParticleSimulation({ seed: seed ?? null }));
+  const trailBuffersRef = useRef<TrailBuffers | null>(null);
+  const trailFrameRef = useRef(0);
+  const animationFrameRef = useRef<number | null>(null);
+  const [viewBounds, setViewBounds] = useState<ViewBounds | null>(null);
+  const [zoom, setZoom] = useState(3);
+  const forecastTimeRef = useRef(forecastTime);
+  forecastTimeRef.current = forecastTime;
+  const timeTweenRef = useRef<TimeTween>({
+    from: forecastTime ?? 0,
+    target: forecastTime ?? 0,
+    startedAt: 0,
+    durationMs: 0,
+    lastTargetAt: null,
+  });
+
+  // Zoom scaling, spawning and advection live in the simulation
+  const speedScale = profile?.speedScale ?? 1;
+  useEffect(() => {
+    simulation.setOptions({
+      particleCount: baseParticleCount,
+      trailLength,
+      maxAge,
+      speedFactor,
+      speedScale,
+      sampling,
+      integrator,
+      spawn,
+      densityMask: densityMask ?? null,
+      adaptiveCount,
+      seed: seed ?? null,
+    });
+  }, [
+    simulation,
+    baseParticleCount,
+    trailLength,
+    maxAge,
+    speedFactor,
+    speedScale,
+    sampling,
+    integrator,
+    spawn,
+    densityMask,
+    adaptiveCount,
+    seed,
+  ]);
+
+  // Ease toward a new forecast time over the interval between updates, so the
+  // flow stays continuous at any animation speed; jumping backward snaps
+  useEffect(() => {
+    if (forecastTime === undefined) return;
+    const tween = timeTweenRef.current;
+    const now = performance.now();
+    const current = tweenTime(tween, now);
+
+    if (forecastTime < current) {
+      timeTweenRef.current = { ...tween, from: forecastTime, target: forecastTime, durationMs: 0, lastTargetAt: now };
+      return;
+    }
+
+    timeTweenRef.current = {
+      from: current,
+      target: forecastTime,
+      startedAt: now,
+      durationMs:
+        tween.lastTargetAt === null
+          ? MAX_TIME_TWEEN_MS
+          : Math.min(MAX_TIME_TWEEN_MS, now - tween.lastTargetAt),
+      lastTargetAt: now,
+    };
+  }, [forecastTime]);
+
+  // Create deck.gl layers with fading trails (head bright, tail fades out)
+  const createLayers = useCallback(() => {
+    if (!fieldData || !profile) return [];
+
+    const buffers = fillTrailBuffers(trailBuffersRef.current, simulation, profile, colorBy);
+    trailBuffersRef.current = buffers;
+    // With no trails the vertex count reads as 0 and PathLayer would fall back to the whole buffer
+    if (buffers.pathCount === 0) return [];
+
+    // Same data object and arrays every frame; deck.gl skips a binary attribute whose
+    // descriptor is unchanged, so only the { value, size } descriptors are renewed
+    const { data, positions, colors } = buffers;
+    data.attributes = {
+      getPath: { value: positions, size: 2 },
+      getColor: { value: colors, size: 4 },
+    };
+    const frame = ++trailFrameRef.current;
+
+    return [
+      new PathLayer({
+        id,
+        data,
+        updateTriggers: { getPath: frame, getColor: frame },
+        _pathType: 'open',
+        positionFormat: 'XY',
+        getWidth: lineWidth,
+        widthUnits: 'pixels',
+        widthMinPixels: 1,
+        widthMaxPixels: 3,
+        capRounded: true,
+        jointRounded: true,
+        billboard: false,
+        opacity: opacity,
+        getPolygonOffset: () => [0, -100],
+      }),
+    ];
+  }, [fieldData, profile, id, simulation, lineWidth, opacity, colorBy]);
+
+  // Track map view changes
+  useEffect(() => {
+    if (!mapRef.current) return;
+    const map = mapRef.current.getMap();
+    if (!map) return;
+
+    const updateView = () => {
+      const bounds = map.getBounds();
+      const currentZoom = map.getZoom();
+      
+      setViewBounds({
+        west: bounds.getWest(),
+        east: bounds.getEast(),
+        south: bounds.getSouth(),
+        north: bounds.getNorth(),
+      });
+      setZoom(currentZoom);
+    };
+
+    // Initial update
+    updateView();
+
+    // Listen to view changes
+    map.on('moveend', updateView);
+    map.on('zoomend', updateView);
+
+    return () => {
+      map.off('moveend', updateView);
+      map.off('zoomend', updateView);
+    };
+  }, [mapRef]);
+
+  // Respawns land in the current view
+  useEffect(() => {
+    simulation.setView({ bounds: viewBounds, zoom });
+  }, [simulation, viewBounds, zoom]);
+
+  // Reinitialize particles when zoom changes significantly
+  useEffect(() => {
+    if (enabled && fieldData && viewBounds) {
+      simulation.reset();
+    }
+  }, [zoom > 6 ? Math.floor(zoom) : 0, enabled]); // Only reinit on significant zoom changes
+
+  // Animation loop
+  useEffect(() => {
+    if (!enabled || !fieldData || !mapRef.current) return;
+
+    const map = mapRef.current.getMap();
+    if (!map) return;
+
+    // Create overlay if it doesn't exist
+    if (!overlayRef.current) {
+      overlayRef.current = new MapboxOverlay({
+        interleaved: true,
+        layers: [],
+      });
+      map.addControl(overlayRef.current as any);
+    }
+
+    // Initialize particles with current view (kept when only the forecast hour changed)
+    const bounds = map.getBounds();
+    if (simulation.count === 0) {
+      simulation.setView({
+        bounds: {
+          west: bounds.getWest(),
+          east: bounds.getEast(),
+          south: bounds.getSouth(),
+          north: bounds.getNorth(),
+        },
+        zoom: map.getZoom(),
+      });
+    }
+    simulation.setField(fieldData.field, fieldData.next);
+
+    let lastTime = 0;
+    const targetFPS = 30;
+    const frameInterval = 1000 / targetFPS;
+
+    // Animation loop
+    const animate = (currentTime: number) => {
+      if (currentTime - lastTime >= frameInterval) {
+        // Where the displayed time falls between the two loaded forecast hours
+        // (without a forecastTime, show the later hour)
+        const { next, fromHour, toHour } = fieldData;
+        const displayTime =
+          forecastTimeRef.current !== undefined ? tweenTime(timeTweenRef.current, currentTime) : toHour;
+        simulation.setTimeFraction(
+          next ? Math.min(1, Math.max(0, (displayTime - fromHour) / (toHour - fromHour))) : 0
+        );
+        simulation.step();
+        
+        if (overlayRef.current) {
+          overlayRef.current.setProps({
+            layers: createLayers(),
+          });
+        }
+        lastTime = currentTime;
+      }
+
+      animationFrameRef.current = requestAnimationFrame(animate);
+    };
+
+    animationFrameRef.current = requestAnimationFrame(animate);
+
+    return () => {
+      if (animationFrameRef.current) {
+        cancelAnimationFrame(animationFrameRef.current);
+      }
+    };
+  }, [enabled, fieldData, mapRef, simulation, createLayers]);
+
+  // Cleanup on unmount
+  useEffect(() => {
+    return () => {
+      if (overlayRef.current && mapRef.current) {
+        const map = mapRef.current.getMap();
+        if (map) {
+          try {
+            map.removeControl(overlayRef.current as any);
+          } catch (e) {
+            // Ignore errors during cleanup
+          }
+        }
+      }
+      if (animationFrameRef.current) {
+        cancelAnimationFrame(animationFrameRef.current);
+      }
+    };
+  }, [mapRef]);
+
+  // Handle enable/disable
+  useEffect(() => {
+    if (!overlayRef.current) return;
+
+    if (!enabled) {
+      overlayRef.current.setProps({ layers: [] });
+      if (animationFrameRef.current) {
+        cancelAnimationFrame(animationFrameRef.current);
+        animationFrameRef.current = null;
+      }
+    }
+  }, [enabled]);
+
+  return null;
+}
+
+export default VectorFieldParticleLayer;
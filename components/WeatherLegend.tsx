@@ -0,0 +1,71 @@
+/**
+ * Weather Legend
+ *
+ * Color bar, model run and data age for the selected model variable.
+ */
+
+import React, { useMemo } from "react";
+import type { ModelVariable } from "@/hooks/useModelMetadata";
+import { formatAgeShort } from "@/lib/dataFreshness";
+
+interface WeatherLegendProps {
+  variable: ModelVariable | null;
+  modelRun: string | null;
+  ageMinutes: number;
+  modelName?: string;
+}
+
+const WeatherLegend: React.FC<WeatherLegendProps> = ({
+  variable,
+  modelRun,
+  ageMinutes,
+  modelName = "HRRR",
+}) => {
+  const colorStops = variable?.color_stops || [];
+
+  const gradient = useMemo(() => {
+    if (colorStops.length < 2) return "linear-gradient(to right, #333, #666)";
+    const stops = colorStops
+      .map((stop, i) => {
+        const percent = (i / (colorStops.length - 1)) * 100;
+        return `${stop.color} ${percent}%`;
+      })
+      .join(", ");
+    return `linear-gradient(to right, ${stops})`;
+  }, [colorStops]);
+
+  const minValue = colorStops.length > 0 ? colorStops[0].value : 0;
+  const maxValue =
+    colorStops.length > 0 ? colorStops[colorStops.length - 1].value : 100;
+
+  const ageText = useMemo(
+    () => (ageMinutes < 0 ? "" : formatAgeShort(ageMinutes)),
+    [ageMinutes]
+  );
+
+  if (!variable) return null;
+
+  return (
+    <div className="weather-legend">
+      <div className="legend-title">{variable.name}</div>
+
+      {/* Color bar */}
+      {colorStops.length >= 2 && (
+        <>
+          <div className="legend-gradient" style={{ background: gradient }} />
+          <div className="legend-labels">
+            <span>{minValue}{variable.units}</span>
+            <span>{maxValue}{variable.units}</span>
+          </div>
+        </>
+      )}
+
+      <div className="legend-meta">
+        {modelRun && <div>{modelName} {modelRun}</div>}
+        {ageText && <div style={{ color: "#10b981" }}>{ageText}</div>}
+      </div>
+    </div>
+  );
+};
+
+export default WeatherLegend;
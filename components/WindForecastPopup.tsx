@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from 'react';
+import { fetchJson, isAbortError } from '@/lib/httpClient';
 
 interface WindForecastPopupProps {
   latitude: number;
@@ -67,6 +68,8 @@ const WindForecastPopup: React.FC<WindForecastPopupProps> = ({ latitude, longitu
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
+    const controller = new AbortController();
+
     const fetchWeather = async () => {
       setLoading(true);
       setError(null);
@@ -74,19 +77,23 @@ const WindForecastPopup: React.FC<WindForecastPopupProps> = ({ latitude, longitu
       try {
         const url = `https://api.open-meteo.com/v1/forecast?latitude=${latitude}&longitude=${longitude}&current_weather=true&hourly=wind_speed_10m,wind_direction_10m,wind_gusts_10m,temperature_2m&timezone=auto&forecast_days=2`;
         
-        const response = await fetch(url);
-        if (!response.ok) throw new Error('Failed to fetch weather data');
-        
-        const result: OpenMeteoResponse = await response.json();
+        const result = await fetchJson<OpenMeteoResponse>(url, {
+          signal: controller.signal,
+          label: 'weather data',
+        });
         setData(result);
       } catch (err) {
+        if (isAbortError(err)) return;
         setError(err instanceof Error ? err.message : 'Unknown error');
       } finally {
-        setLoading(false);
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
       }
     };
 
     fetchWeather();
+    return () => controller.abort();
   }, [latitude, longitude]);
 
   const currentBeaufort = data ? getBeaufortScale(data.current_weather.windspeed) : null;
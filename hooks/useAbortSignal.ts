@@ -0,0 +1,27 @@
+/**
+ * Abort Signal Hook
+ *
+ * Ties request cancellation to a component's lifecycle. Each call to the
+ * returned function aborts the previous request and hands out a fresh
+ * AbortSignal; the last one is aborted on unmount.
+ */
+
+import { useCallback, useEffect, useRef } from "react";
+
+export function useAbortSignal(): () => AbortSignal {
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Cancel whatever is still in flight on unmount
+  useEffect(() => {
+    return () => controllerRef.current?.abort();
+  }, []);
+
+  return useCallback(() => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    return controller.signal;
+  }, []);
+}
+
+export default useAbortSignal;
@@ -0,0 +1,330 @@
+/**
+ * Model Metadata Hook
+ *
+ * Fetches and manages pipeline metadata for any model in the registry
+ * (HRRR, GFS-Wave, ...). Provides typed access to available variables,
+ * timestamps, and tile URLs. The last good document is cached in IndexedDB
+ * and served on startup (or when S3 is unreachable) while revalidating.
+ */
+
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
+import { getModel, formatForecastHour } from "@/lib/modelRegistry";
+import type { ModelDefinition } from "@/lib/modelRegistry";
+import {
+  validateModelMetadata,
+  getValidationIssues,
+} from "@/lib/metadataValidation";
+import type { ValidationIssue } from "@/lib/metadataValidation";
+import { loadWithCache, METADATA_CACHE_KEYS } from "@/lib/metadataCache";
+import { fetchJson, isAbortError } from "@/lib/httpClient";
+import { useAbortSignal } from "@/hooks/useAbortSignal";
+import { useNow } from "@/hooks/useNow";
+import { getModelFreshness } from "@/lib/dataFreshness";
+import type { ModelFreshness } from "@/lib/dataFreshness";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ModelRun {
+  date: string; // "2026-01-11"
+  cycle: string; // "18"
+  cycle_formatted: string; // "18Z"
+  timestamp: string; // ISO 8601: "2026-01-11T18:00:00+00:00"
+  unix_timestamp: number;
+  display: string; // "2026-01-11 18:00 UTC"
+}
+
+export interface ColorStop {
+  value: number;
+  color: string;
+}
+
+export interface ModelVariable {
+  id: string; // "temperature_2m"
+  name: string; // "Temperature (2m)"
+  description: string;
+  units: string; // "°C"
+  color_ramp: string; // "temperature"
+  color_stops?: ColorStop[];
+  latest_timestamp?: string; // "20260111T18z"
+  timestamps?: string[];
+}
+
+export interface TileConfig {
+  url_template: string;
+  format: string; // "png"
+  tile_size: number; // 256
+  min_zoom: number;
+  max_zoom: number;
+  bounds: [number, number, number, number]; // [west, south, east, north]
+}
+
+export interface AvailableRun {
+  timestamp: string; // "20260111T18z"
+  forecast_hours: string[]; // ["00", "01", "02", ...]
+  forecast_count: number;
+}
+
+export interface DataFreshness {
+  age_minutes: number;
+  status: "fresh" | "stale" | "old";
+  generated_at: string;
+}
+
+export interface ModelMetadata {
+  version: string;
+  model: string; // "hrrr", "gfs_wave"
+  product: string; // "sfc", "global.0p25"
+  model_run: ModelRun;
+  data_freshness: DataFreshness;
+  variables: ModelVariable[];
+  variable_ids: string[];
+  forecast_hours: string[];
+  available_runs: AvailableRun[]; // Historical model runs (newest first)
+  available_runs_count: number;
+  tiles: TileConfig;
+  endpoints: {
+    metadata: string;
+    tiles: string;
+    colored_cogs: string;
+  };
+  generated_at: string;
+  pipeline_version: string;
+}
+
+/** Emitted when a refresh returns a different model_run than the previous fetch */
+export interface NewRunEvent {
+  model: ModelDefinition;
+  previousRun: ModelRun;
+  currentRun: ModelRun;
+}
+
+export interface UseModelMetadataOptions {
+  /** Override the registry metadata URL */
+  metadataUrl?: string;
+  autoRefresh?: boolean;
+  /** Called when auto-refresh (or a manual refresh) detects a new model run */
+  onNewRun?: (event: NewRunEvent) => void;
+}
+
+export interface UseModelMetadataResult {
+  model: ModelDefinition;
+  metadata: ModelMetadata | null;
+  loading: boolean;
+  error: Error | null;
+  /** Field-level problems when the last payload failed validation */
+  validationIssues: ValidationIssue[];
+  /** When the displayed metadata came from the offline cache, the time it was cached (epoch ms) */
+  cachedAt: number | null;
+  refresh: () => Promise<void>;
+  getTileUrl: (
+    variable: string,
+    timestamp?: string,
+    forecast?: string
+  ) => string | null;
+  getVariable: (id: string) => ModelVariable | undefined;
+  getRun: (timestamp: string) => AvailableRun | undefined;
+  getLatestRun: () => AvailableRun | undefined;
+  isDataFresh: boolean;
+  /** Run age and overdue status against the client clock (null until loaded) */
+  freshness: ModelFreshness | null;
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const REFRESH_INTERVAL_MS = 10 * 60 * 1000; // 10 minutes
+
+// =============================================================================
+// Hook
+// =============================================================================
+
+export function useModelMetadata(
+  modelId: string,
+  options: UseModelMetadataOptions = {}
+): UseModelMetadataResult {
+  const model = useMemo(() => getModel(modelId), [modelId]);
+  const { metadataUrl = model.metadataUrl, autoRefresh = true, onNewRun } = options;
+
+  const [metadata, setMetadata] = useState<ModelMetadata | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<Error | null>(null);
+  const [validationIssues, setValidationIssues] = useState<ValidationIssue[]>([]);
+  const [cachedAt, setCachedAt] = useState<number | null>(null);
+
+  // Last seen run, last run fetched from the network, and the latest callback
+  // (kept in refs so fetchMetadata stays stable)
+  const lastRunRef = useRef<ModelRun | null>(null);
+  const lastNetworkRunRef = useRef<ModelRun | null>(null);
+  const onNewRunRef = useRef(onNewRun);
+  onNewRunRef.current = onNewRun;
+
+  const applyMetadata = useCallback(
+    (data: ModelMetadata, dataCachedAt: number | null) => {
+      setMetadata(data);
+      setCachedAt(dataCachedAt);
+
+      lastRunRef.current = data.model_run;
+
+      // Only network results are compared: the revalidation replacing the cached
+      // copy sets the baseline silently instead of reporting the cached run as replaced
+      if (dataCachedAt !== null) return;
+      const previousRun = lastNetworkRunRef.current;
+      lastNetworkRunRef.current = data.model_run;
+      if (previousRun && previousRun.timestamp !== data.model_run.timestamp) {
+        onNewRunRef.current?.({ model, previousRun, currentRun: data.model_run });
+      }
+    },
+    [model]
+  );
+
+  const nextSignal = useAbortSignal();
+
+  const fetchMetadata = useCallback(async () => {
+    // A new fetch (refresh or auto-refresh) cancels the previous one
+    const signal = nextSignal();
+    try {
+      setLoading(true);
+      setError(null);
+      setValidationIssues([]);
+
+      const fetchFresh = async () => {
+        const data = await fetchJson(metadataUrl, {
+          signal,
+          cache: "no-cache", // Always get fresh metadata
+          label: `${model.displayName} metadata`,
+        });
+        return validateModelMetadata(data, model.displayName);
+      };
+
+      // Start from the cached copy on first load; once loaded, a failed refresh keeps
+      // the in-memory copy rather than falling back to the (older) cached one
+      const loaded = lastRunRef.current !== null;
+      const { error: revalidationError } = await loadWithCache(
+        METADATA_CACHE_KEYS.model(model.id),
+        fetchFresh,
+        (data, dataCachedAt) => {
+          if (!signal.aborted) applyMetadata(data, dataCachedAt);
+        },
+        {
+          cacheFirst: !loaded,
+          cacheFallback: !loaded,
+          validate: (data) => validateModelMetadata(data, model.displayName),
+        }
+      );
+
+      if (revalidationError) {
+        throw revalidationError;
+      }
+    } catch (err) {
+      if (isAbortError(err)) return;
+      setError(err instanceof Error ? err : new Error(String(err)));
+      setValidationIssues(getValidationIssues(err));
+    } finally {
+      if (!signal.aborted) {
+        setLoading(false);
+      }
+    }
+  }, [metadataUrl, model, applyMetadata, nextSignal]);
+
+  // Initial fetch
+  useEffect(() => {
+    fetchMetadata();
+  }, [fetchMetadata]);
+
+  // Auto-refresh
+  useEffect(() => {
+    if (!autoRefresh) return;
+
+    const interval = setInterval(fetchMetadata, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [autoRefresh, fetchMetadata]);
+
+  // Build tile URL for a specific variable/timestamp/forecast
+  const getTileUrl = useCallback(
+    (
+      variable: string,
+      timestamp?: string,
+      forecast: string = formatForecastHour(model, 0)
+    ): string | null => {
+      if (!metadata) return null;
+
+      // Use latest timestamp if not specified
+      const varData = metadata.variables.find((v) => v.id === variable);
+      const ts = timestamp || varData?.latest_timestamp;
+
+      if (!ts) return null;
+
+      return buildTileUrl(metadata, variable, ts, forecast);
+    },
+    [metadata, model]
+  );
+
+  // Get variable by ID
+  const getVariable = useCallback(
+    (id: string): ModelVariable | undefined => {
+      return metadata?.variables.find((v) => v.id === id);
+    },
+    [metadata]
+  );
+
+  // Get run by timestamp
+  const getRun = useCallback(
+    (timestamp: string): AvailableRun | undefined => {
+      return metadata?.available_runs?.find((r) => r.timestamp === timestamp);
+    },
+    [metadata]
+  );
+
+  // Get the latest (most recent) run
+  const getLatestRun = useCallback((): AvailableRun | undefined => {
+    return metadata?.available_runs?.[0]; // First run is newest
+  }, [metadata]);
+
+  // Freshness against the client clock, re-evaluated every minute
+  const now = useNow();
+  const freshness = useMemo(
+    () => (metadata ? getModelFreshness(model, metadata, now) : null),
+    [model, metadata, now]
+  );
+  const isDataFresh = freshness?.status === "fresh";
+
+  return {
+    model,
+    metadata,
+    loading,
+    error,
+    validationIssues,
+    cachedAt,
+    refresh: fetchMetadata,
+    getTileUrl,
+    getVariable,
+    getRun,
+    getLatestRun,
+    isDataFresh,
+    freshness,
+  };
+}
+
+// =============================================================================
+// Utility Functions
+// =============================================================================
+
+/**
+ * Build a complete tile URL from metadata
+ */
+export function buildTileUrl(
+  metadata: ModelMetadata,
+  variable: string,
+  timestamp: string,
+  forecast: string
+): string {
+  return metadata.tiles.url_template
+    .replace("{variable}", variable)
+    .replace("{timestamp}", timestamp)
+    .replace("{forecast}", forecast);
+}
+
+export default useModelMetadata;
@@ -0,0 +1,45 @@
+/**
+ * New Run Behavior Hook
+ *
+ * Per-user preference for what happens when auto-refresh finds a new model
+ * run: switch to it automatically or ask first. Persisted in localStorage.
+ */
+
+import { useState, useEffect, useCallback } from "react";
+
+export type NewRunBehavior = "auto" | "prompt";
+
+const STORAGE_KEY = "hrrr-weather-viz:new-run-behavior";
+const DEFAULT_BEHAVIOR: NewRunBehavior = "auto";
+
+const isNewRunBehavior = (value: unknown): value is NewRunBehavior =>
+  value === "auto" || value === "prompt";
+
+export function useNewRunBehavior(): [NewRunBehavior, (behavior: NewRunBehavior) => void] {
+  const [behavior, setBehaviorState] = useState<NewRunBehavior>(DEFAULT_BEHAVIOR);
+
+  // Read the stored preference after mount (localStorage is unavailable during SSR)
+  useEffect(() => {
+    try {
+      const stored = window.localStorage.getItem(STORAGE_KEY);
+      if (isNewRunBehavior(stored)) {
+        setBehaviorState(stored);
+      }
+    } catch {
+      // Storage blocked (private mode etc.) - keep the default
+    }
+  }, []);
+
+  const setBehavior = useCallback((next: NewRunBehavior) => {
+    setBehaviorState(next);
+    try {
+      window.localStorage.setItem(STORAGE_KEY, next);
+    } catch {
+      // Preference just won't persist
+    }
+  }, []);
+
+  return [behavior, setBehavior];
+}
+
+export default useNewRunBehavior;
@@ -0,0 +1,32 @@
+/**
+ * Now Hook
+ *
+ * Current client time (epoch ms) that re-renders on an interval, and right
+ * away when a backgrounded tab becomes visible again (browsers throttle
+ * timers in hidden tabs).
+ */
+
+import { useEffect, useState } from "react";
+
+export function useNow(intervalMs: number = 60 * 1000): number {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const tick = () => setNow(Date.now());
+    const interval = setInterval(tick, intervalMs);
+
+    const onVisibilityChange = () => {
+      if (document.visibilityState === "visible") tick();
+    };
+    document.addEventListener("visibilitychange", onVisibilityChange);
+
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener("visibilitychange", onVisibilityChange);
+    };
+  }, [intervalMs]);
+
+  return now;
+}
+
+export default useNow;
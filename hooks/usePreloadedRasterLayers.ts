@@ -1,275 +1,431 @@
-/**
- * Preloaded Raster Layers Hook
- *
- * For truly instant transitions with ZERO visual artifacts:
- * - Creates a separate layer for EACH forecast hour upfront
- * - Waits for ALL tiles to load before enabling interactions
- * - Switching forecasts is just an opacity toggle (instant, no network)
- *
- * Trade-off: Uses more memory, but transitions are completely seamless.
- */
-
-import { useRef, useCallback, useState, useEffect } from "react";
-import type { MapRef } from "react-map-gl";
-import type mapboxgl from "mapbox-gl";
-
-interface RasterSourceConfig {
-  tileSize?: number;
-  minzoom?: number;
-  maxzoom?: number;
-  bounds?: [number, number, number, number];
-}
-
-interface UsePreloadedRasterLayersOptions {
-  mapRef: React.RefObject<MapRef>;
-  sourceConfig: RasterSourceConfig;
-  baseOpacity?: number;
-  /** Function to build tile URL for a given forecast hour */
-  buildTileUrl: (forecastHour: string) => string | null;
-  /** All forecast hours to preload */
-  forecastHours: string[];
-  /** Whether the layer system is enabled */
-  enabled?: boolean;
-  /** Optional prefix for layer/source IDs (default: "weather") */
-  layerIdPrefix?: string;
-}
-
-interface UsePreloadedRasterLayersResult {
-  /** Initialize all layers (call once when ready) */
-  initialize: () => void;
-  /** Switch to a different forecast hour (instant) */
-  setActiveForecast: (forecastHour: string) => void;
-  /** Current active forecast hour */
-  activeForecast: string | null;
-  /** Whether all layers are loaded and ready */
-  isReady: boolean;
-  /** Loading progress (0-100) */
-  loadProgress: number;
-  /** Number of layers loaded */
-  loadedCount: number;
-  /** Total layers to load */
-  totalCount: number;
-  /** Clean up all sources and layers */
-  cleanup: () => void;
-  /** Set opacity for the active layer */
-  setOpacity: (opacity: number) => void;
-  /** Re-initialize with new URLs (e.g., when variable changes) */
-  reinitialize: () => void;
-}
-
-export function usePreloadedRasterLayers(
-  options: UsePreloadedRasterLayersOptions
-): UsePreloadedRasterLayersResult {
-  const {
-    mapRef,
-    sourceConfig,
-    baseOpacity = 0.7,
-    buildTileUrl,
-    forecastHours,
-    enabled = true,
-    layerIdPrefix = "weather",
-  } = options;
-
-  const SOURCE_PREFIX = `${layerIdPrefix}-preload-`;
-  const LAYER_PREFIX = `${layerIdPrefix}-layer-`;
-
-  const [activeForecast, setActiveForecastState] = useState<string | null>(null);
-  const [isReady, setIsReady] = useState(false);
-  const [loadedCount, setLoadedCount] = useState(0);
-  const [totalCount, setTotalCount] = useState(0);
-
-  const isInitializedRef = useRef(false);
-  const opacityRef = useRef(baseOpacity);
-  const loadedSourcesRef = useRef<Set<string>>(new Set());
-  const activeForecastRef = useRef<string | null>(null);
-
-  const getMap = useCallback(() => mapRef.current?.getMap(), [mapRef]);
-
-  const getSourceId = (forecastHour: string) => `${SOURCE_PREFIX}${forecastHour}`;
-  const getLayerId = (forecastHour: string) => `${LAYER_PREFIX}${forecastHour}`;
-
-  const cleanup = useCallback(() => {
-    const map = getMap();
-    if (!map) return;
-
-    // Remove all layers and sources for each forecast hour
-    forecastHours.forEach((hour) => {
-      const layerId = getLayerId(hour);
-      const sourceId = getSourceId(hour);
-
-      if (map.getLayer(layerId)) {
-        map.removeLayer(layerId);
-      }
-      if (map.getSource(sourceId)) {
-        map.removeSource(sourceId);
-      }
-    });
-
-    isInitializedRef.current = false;
-    loadedSourcesRef.current.clear();
-    setIsReady(false);
-    setLoadedCount(0);
-    setActiveForecastState(null);
-    activeForecastRef.current = null;
-  }, [getMap, forecastHours]);
-
-  // Cleanup on unmount
-  useEffect(() => {
-    return () => {
-      cleanup();
-    };
-  }, [cleanup]);
-
-  const setOpacity = useCallback(
-    (opacity: number) => {
-      opacityRef.current = opacity;
-      const map = getMap();
-      if (!map || !activeForecastRef.current) return;
-
-      const activeLayerId = getLayerId(activeForecastRef.current);
-      if (map.getLayer(activeLayerId)) {
-        map.setPaintProperty(activeLayerId, "raster-opacity", opacity);
-      }
-    },
-    [getMap]
-  );
-
-  const setActiveForecast = useCallback(
-    (forecastHour: string) => {
-      const map = getMap();
-      if (!map || !isReady) return;
-
-      const previousForecast = activeForecastRef.current;
-
-      // Show new layer FIRST (prevents flash where nothing is visible)
-      const newLayerId = getLayerId(forecastHour);
-      if (map.getLayer(newLayerId)) {
-        map.setPaintProperty(newLayerId, "raster-opacity", opacityRef.current);
-      }
-
-      // THEN hide previous layer
-      if (previousForecast && previousForecast !== forecastHour) {
-        const prevLayerId = getLayerId(previousForecast);
-        if (map.getLayer(prevLayerId)) {
-          map.setPaintProperty(prevLayerId, "raster-opacity", 0);
-        }
-      }
-
-      activeForecastRef.current = forecastHour;
-      setActiveForecastState(forecastHour);
-    },
-    [getMap, isReady]
-  );
-
-  const initialize = useCallback(() => {
-    const map = getMap();
-    if (!map || isInitializedRef.current || !enabled || forecastHours.length === 0) {
-      return;
-    }
-
-    // Clean up any existing layers first
-    cleanup();
-
-    const { tileSize = 256, minzoom = 0, maxzoom = 8, bounds } = sourceConfig;
-    const total = forecastHours.length;
-    setTotalCount(total);
-    setLoadedCount(0);
-    loadedSourcesRef.current.clear();
-
-    // Track which sources have loaded
-    const checkAllLoaded = () => {
-      const loaded = loadedSourcesRef.current.size;
-      setLoadedCount(loaded);
-
-      if (loaded >= total) {
-        setIsReady(true);
-        // Set initial active forecast
-        if (forecastHours.length > 0 && !activeForecastRef.current) {
-          const initialForecast = forecastHours[0];
-          activeForecastRef.current = initialForecast;
-          setActiveForecastState(initialForecast);
-
-          // Make initial layer visible
-          const initialLayerId = getLayerId(initialForecast);
-          if (map.getLayer(initialLayerId)) {
-            map.setPaintProperty(initialLayerId, "raster-opacity", opacityRef.current);
-          }
-        }
-      }
-    };
-
-    // Create a source and layer for each forecast hour
-    forecastHours.forEach((hour, index) => {
-      const tileUrl = buildTileUrl(hour);
-      if (!tileUrl) return;
-
-      const sourceId = getSourceId(hour);
-      const layerId = getLayerId(hour);
-
-      // Create source
-      map.addSource(sourceId, {
-        type: "raster",
-        tiles: [tileUrl],
-        tileSize,
-        minzoom,
-        maxzoom,
-        ...(bounds && { bounds }),
-      });
-
-      // Create layer (all start hidden except we'll show the first one after all load)
-      map.addLayer({
-        id: layerId,
-        type: "raster",
-        source: sourceId,
-        paint: {
-          "raster-opacity": 0,
-          "raster-fade-duration": 0,
-          "raster-opacity-transition": { duration: 0, delay: 0 },
-        },
-      });
-
-      // Listen for source load
-      const onSourceData = (e: mapboxgl.MapSourceDataEvent) => {
-        if (e.sourceId === sourceId && e.isSourceLoaded && !loadedSourcesRef.current.has(hour)) {
-          loadedSourcesRef.current.add(hour);
-          checkAllLoaded();
-        }
-      };
-
-      map.on("sourcedata", onSourceData);
-
-      // Also check immediately in case already cached
-      if (map.isSourceLoaded(sourceId)) {
-        loadedSourcesRef.current.add(hour);
-        checkAllLoaded();
-      }
-    });
-
-    isInitializedRef.current = true;
-  }, [getMap, enabled, forecastHours, sourceConfig, buildTileUrl, cleanup]);
-
-  const reinitialize = useCallback(() => {
-    cleanup();
-    // Small delay to ensure cleanup completes
-    setTimeout(() => {
-      initialize();
-    }, 50);
-  }, [cleanup, initialize]);
-
-  const loadProgress = totalCount > 0 ? Math.round((loadedCount / totalCount) * 100) : 0;
-
-  return {
-    initialize,
-    setActiveForecast,
-    activeForecast,
-    isReady,
-    loadProgress,
-    loadedCount,
-    totalCount,
-    cleanup,
-    setOpacity,
-    reinitialize,
-  };
-}
-
-export default usePreloadedRasterLayers;
+/**
+ * Preloaded Raster Layers Hook
+ *
+ * For truly instant transitions with ZERO visual artifacts:
+ * - Creates a separate layer for EACH forecast hour upfront
+ * - Waits for ALL tiles to load before enabling interactions
+ * - Switching forecasts is just an opacity toggle (instant, no network)
+ *
+ * A second set of layers (e.g. a newer model run) can be loaded hidden in
+ * the background and swapped in once every hour has loaded.
+ *
+ * Trade-off: Uses more memory, but transitions are completely seamless.
+ */
+
+import { useRef, useCallback, useState, useEffect } from "react";
+import type { MapRef } from "react-map-gl";
+import type mapboxgl from "mapbox-gl";
+import type { CustomSourceInterface } from "mapbox-gl";
+
+interface RasterSourceConfig {
+  tileSize?: number;
+  minzoom?: number;
+  maxzoom?: number;
+  bounds?: [number, number, number, number];
+}
+
+/** What to build one set of layers from (one layer per forecast hour) */
+export interface LayerSetConfig {
+  /** Function to build tile URL for a given forecast hour */
+  buildTileUrl: (forecastHour: string) => string | null;
+  /**
+   * Optional custom source factory (e.g. computed difference tiles).
+   * When set it is used instead of a URL raster source.
+   */
+  buildCustomSource?: (
+    forecastHour: string,
+    sourceId: string
+  ) => CustomSourceInterface<unknown> | null;
+  /** All forecast hours to preload */
+  forecastHours: string[];
+}
+
+interface UsePreloadedRasterLayersOptions extends LayerSetConfig {
+  mapRef: React.RefObject<MapRef>;
+  sourceConfig: RasterSourceConfig;
+  baseOpacity?: number;
+  /** Whether the layer system is enabled */
+  enabled?: boolean;
+  /** Optional prefix for layer/source IDs (default: "weather") */
+  layerIdPrefix?: string;
+}
+
+interface UsePreloadedRasterLayersResult {
+  /** Initialize all layers (call once when ready) */
+  initialize: () => void;
+  /** Switch to a different forecast hour (instant) */
+  setActiveForecast: (forecastHour: string) => void;
+  /** Current active forecast hour */
+  activeForecast: string | null;
+  /** Whether all layers are loaded and ready */
+  isReady: boolean;
+  /** Loading progress (0-100) */
+  loadProgress: number;
+  /** Number of layers loaded */
+  loadedCount: number;
+  /** Total layers to load */
+  totalCount: number;
+  /** Clean up all sources and layers */
+  cleanup: () => void;
+  /** Set opacity for the active layer */
+  setOpacity: (opacity: number) => void;
+  /** Re-initialize with new URLs (e.g., when variable changes) */
+  reinitialize: () => void;
+  /** Load a replacement set of layers hidden, behind the visible ones */
+  prepareNext: (next: LayerSetConfig) => void;
+  /** Show the prepared set at the given forecast hour and drop the old one */
+  commitNext: (forecastHour: string) => void;
+  /** Remove the prepared set without showing it */
+  discardNext: () => void;
+  /** Whether the prepared set has fully loaded */
+  isNextReady: boolean;
+  /** Loading progress of the prepared set (0-100) */
+  nextLoadProgress: number;
+}
+
+interface LayerSet {
+  generation: number;
+  /** forecast hour -> layer ID */
+  layers: Map<string, string>;
+  sourceIds: string[];
+  loaded: Set<string>;
+  onSourceData: (e: mapboxgl.MapSourceDataEvent) => void;
+}
+
+function removeLayerSet(map: mapboxgl.Map, set: LayerSet | null) {
+  if (!set) return;
+
+  map.off("sourcedata", set.onSourceData);
+  set.layers.forEach((layerId) => {
+    if (map.getLayer(layerId)) {
+      map.removeLayer(layerId);
+    }
+  });
+  set.sourceIds.forEach((sourceId) => {
+    if (map.getSource(sourceId)) {
+      map.removeSource(sourceId);
+    }
+  });
+}
+
+export function usePreloadedRasterLayers(
+  options: UsePreloadedRasterLayersOptions
+): UsePreloadedRasterLayersResult {
+  const {
+    mapRef,
+    sourceConfig,
+    baseOpacity = 0.7,
+    buildTileUrl,
+    buildCustomSource,
+    forecastHours,
+    enabled = true,
+    layerIdPrefix = "weather",
+  } = options;
+
+  const SOURCE_PREFIX = `${layerIdPrefix}-preload-`;
+  const LAYER_PREFIX = `${layerIdPrefix}-layer-`;
+
+  const [activeForecast, setActiveForecastState] = useState<string | null>(null);
+  const [isReady, setIsReady] = useState(false);
+  const [loadedCount, setLoadedCount] = useState(0);
+  const [totalCount, setTotalCount] = useState(0);
+  const [isNextReady, setIsNextReady] = useState(false);
+  const [nextLoadProgress, setNextLoadProgress] = useState(0);
+
+  const isInitializedRef = useRef(false);
+  const opacityRef = useRef(baseOpacity);
+  const activeForecastRef = useRef<string | null>(null);
+  const activeSetRef = useRef<LayerSet | null>(null);
+  const nextSetRef = useRef<LayerSet | null>(null);
+  const generationRef = useRef(0);
+
+  const getMap = useCallback(() => mapRef.current?.getMap(), [mapRef]);
+
+  /**
+   * Add hidden sources/layers for every forecast hour. IDs include a
+   * generation number so two sets can coexist during a swap.
+   */
+  const addLayerSet = useCallback(
+    (
+      map: mapboxgl.Map,
+      config: LayerSetConfig,
+      onProgress: (set: LayerSet) => void
+    ): LayerSet => {
+      const { tileSize = 256, minzoom = 0, maxzoom = 8, bounds } = sourceConfig;
+      const generation = ++generationRef.current;
+      const sourceHours = new Map<string, string>();
+
+      const set: LayerSet = {
+        generation,
+        layers: new Map(),
+        sourceIds: [],
+        loaded: new Set(),
+        onSourceData: (e) => {
+          const hour = e.sourceId ? sourceHours.get(e.sourceId) : undefined;
+          if (hour && e.isSourceLoaded && !set.loaded.has(hour)) {
+            set.loaded.add(hour);
+            onProgress(set);
+          }
+        },
+      };
+
+      map.on("sourcedata", set.onSourceData);
+
+      config.forecastHours.forEach((hour) => {
+        const sourceId = `${SOURCE_PREFIX}${generation}-${hour}`;
+        const layerId = `${LAYER_PREFIX}${generation}-${hour}`;
+
+        // Create source
+        if (config.buildCustomSource) {
+          const customSource = config.buildCustomSource(hour, sourceId);
+          if (!customSource) return;
+          map.addSource(sourceId, customSource);
+        } else {
+          const tileUrl = config.buildTileUrl(hour);
+          if (!tileUrl) return;
+
+          map.addSource(sourceId, {
+            type: "raster",
+            tiles: [tileUrl],
+            tileSize,
+            minzoom,
+            maxzoom,
+            ...(bounds && { bounds }),
+          });
+        }
+
+        // Create layer (all start hidden, shown via opacity once loaded)
+        map.addLayer({
+          id: layerId,
+          type: "raster",
+          source: sourceId,
+          paint: {
+            "raster-opacity": 0,
+            "raster-fade-duration": 0,
+            "raster-opacity-transition": { duration: 0, delay: 0 },
+          },
+        });
+
+        sourceHours.set(sourceId, hour);
+        set.sourceIds.push(sourceId);
+        set.layers.set(hour, layerId);
+      });
+
+      // Also check immediately in case already cached
+      sourceHours.forEach((hour, sourceId) => {
+        if (map.isSourceLoaded(sourceId)) {
+          set.loaded.add(hour);
+        }
+      });
+      onProgress(set);
+
+      return set;
+    },
+    [sourceConfig, SOURCE_PREFIX, LAYER_PREFIX]
+  );
+
+  const discardNext = useCallback(() => {
+    const map = getMap();
+    if (map) {
+      removeLayerSet(map, nextSetRef.current);
+    }
+    nextSetRef.current = null;
+    setIsNextReady(false);
+    setNextLoadProgress(0);
+  }, [getMap]);
+
+  const cleanup = useCallback(() => {
+    const map = getMap();
+    if (!map) return;
+
+    // Remove all layers and sources of the visible and pending sets
+    removeLayerSet(map, activeSetRef.current);
+    activeSetRef.current = null;
+    discardNext();
+
+    isInitializedRef.current = false;
+    setIsReady(false);
+    setLoadedCount(0);
+    setActiveForecastState(null);
+    activeForecastRef.current = null;
+  }, [getMap, discardNext]);
+
+  // Cleanup on unmount
+  useEffect(() => {
+    return () => {
+      cleanup();
+    };
+  }, [cleanup]);
+
+  const getLayerId = (forecastHour: string) =>
+    activeSetRef.current?.layers.get(forecastHour) ?? null;
+
+  const setOpacity = useCallback(
+    (opacity: number) => {
+      opacityRef.current = opacity;
+      const map = getMap();
+      if (!map || !activeForecastRef.current) return;
+
+      const activeLayerId = getLayerId(activeForecastRef.current);
+      if (activeLayerId && map.getLayer(activeLayerId)) {
+        map.setPaintProperty(activeLayerId, "raster-opacity", opacity);
+      }
+    },
+    [getMap]
+  );
+
+  const setActiveForecast = useCallback(
+    (forecastHour: string) => {
+      const map = getMap();
+      if (!map || !isReady) return;
+
+      const previousForecast = activeForecastRef.current;
+
+      // Show new layer FIRST (prevents flash where nothing is visible)
+      const newLayerId = getLayerId(forecastHour);
+      if (newLayerId && map.getLayer(newLayerId)) {
+        map.setPaintProperty(newLayerId, "raster-opacity", opacityRef.current);
+      }
+
+      // THEN hide previous layer
+      if (previousForecast && previousForecast !== forecastHour) {
+        const prevLayerId = getLayerId(previousForecast);
+        if (prevLayerId && map.getLayer(prevLayerId)) {
+          map.setPaintProperty(prevLayerId, "raster-opacity", 0);
+        }
+      }
+
+      activeForecastRef.current = forecastHour;
+      setActiveForecastState(forecastHour);
+    },
+    [getMap, isReady]
+  );
+
+  const initialize = useCallback(() => {
+    const map = getMap();
+    if (!map || isInitializedRef.current || !enabled || forecastHours.length === 0) {
+      return;
+    }
+
+    // Clean up any existing layers first
+    cleanup();
+
+    setTotalCount(0);
+    setLoadedCount(0);
+
+    // Track which sources have loaded (hours without a source are never added, so
+    // readiness is measured against the layers that exist)
+    const checkAllLoaded = (set: LayerSet) => {
+      if (activeSetRef.current && activeSetRef.current !== set) return;
+
+      const total = set.layers.size;
+      const loaded = set.loaded.size;
+      setTotalCount(total);
+      setLoadedCount(loaded);
+
+      if (loaded >= total) {
+        setIsReady(true);
+        // Set initial active forecast
+        if (forecastHours.length > 0 && !activeForecastRef.current) {
+          const initialForecast = forecastHours[0];
+          activeForecastRef.current = initialForecast;
+          setActiveForecastState(initialForecast);
+
+          // Make initial layer visible
+          const initialLayerId = set.layers.get(initialForecast);
+          if (initialLayerId && map.getLayer(initialLayerId)) {
+            map.setPaintProperty(initialLayerId, "raster-opacity", opacityRef.current);
+          }
+        }
+      }
+    };
+
+    activeSetRef.current = addLayerSet(
+      map,
+      { buildTileUrl, buildCustomSource, forecastHours },
+      checkAllLoaded
+    );
+
+    isInitializedRef.current = true;
+  }, [getMap, enabled, forecastHours, buildTileUrl, buildCustomSource, addLayerSet, cleanup]);
+
+  const reinitialize = useCallback(() => {
+    cleanup();
+    // Small delay to ensure cleanup completes
+    setTimeout(() => {
+      initialize();
+    }, 50);
+  }, [cleanup, initialize]);
+
+  const prepareNext = useCallback(
+    (next: LayerSetConfig) => {
+      const map = getMap();
+      if (!map || !isInitializedRef.current || next.forecastHours.length === 0) return;
+
+      // Replace any set that is still loading
+      discardNext();
+
+      nextSetRef.current = addLayerSet(map, next, (set) => {
+        // Ignore late events for superseded or already committed sets
+        if ((nextSetRef.current && nextSetRef.current !== set) || activeSetRef.current === set) {
+          return;
+        }
+        // Only hours that got a layer count (skipped hours would never load)
+        const total = set.layers.size;
+        setNextLoadProgress(total > 0 ? Math.round((set.loaded.size / total) * 100) : 100);
+        if (set.loaded.size >= total) {
+          setIsNextReady(true);
+        }
+      });
+    },
+    [getMap, addLayerSet, discardNext]
+  );
+
+  const commitNext = useCallback(
+    (forecastHour: string) => {
+      const map = getMap();
+      const next = nextSetRef.current;
+      if (!map || !next) return;
+
+      // Show the new layer FIRST, then drop the old set
+      const layerId = next.layers.get(forecastHour);
+      if (layerId && map.getLayer(layerId)) {
+        map.setPaintProperty(layerId, "raster-opacity", opacityRef.current);
+      }
+      removeLayerSet(map, activeSetRef.current);
+
+      activeSetRef.current = next;
+      nextSetRef.current = null;
+      activeForecastRef.current = forecastHour;
+      setActiveForecastState(forecastHour);
+      setTotalCount(next.layers.size);
+      setLoadedCount(next.loaded.size);
+      setIsReady(true);
+      setIsNextReady(false);
+      setNextLoadProgress(0);
+    },
+    [getMap]
+  );
+
+  const loadProgress = totalCount > 0 ? Math.round((loadedCount / totalCount) * 100) : 0;
+
+  return {
+    initialize,
+    setActiveForecast,
+    activeForecast,
+    isReady,
+    loadProgress,
+    loadedCount,
+    totalCount,
+    cleanup,
+    setOpacity,
+    reinitialize,
+    prepareNext,
+    commitNext,
+    discardNext,
+    isNextReady,
+    nextLoadProgress,
+  };
+}
+
+export default usePreloadedRasterLayers;
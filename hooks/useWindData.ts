@@ -1,7 +1,41 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { validateWindMetadata, getValidationIssues } from '@/lib/metadataValidation';
+import type { ValidationIssue } from '@/lib/metadataValidation';
+import { loadWithCache, readCachedMetadata, METADATA_CACHE_KEYS } from '@/lib/metadataCache';
+import { fetchJson, isAbortError } from '@/lib/httpClient';
+import { useAbortSignal } from '@/hooks/useAbortSignal';
+import { windEncodingFromMetadata } from '@/lib/windEncoding';
+import type { WindEncodingBlock, WindSample } from '@/lib/windEncoding';
+import { lngLatToGrid, sampleWindFieldBlend } from '@/lib/windField';
+import type { SamplingMode, WindField, WindFieldBounds } from '@/lib/windField';
+import { loadWindField } from '@/lib/windFieldLoader';
+import { createWindFieldCache, windFieldBytes } from '@/lib/windFieldCache';
+import { gridProjectionFromMetadata, projectedGridBounds } from '@/lib/projection';
+import type { GridProjection, GridProjectionBlock } from '@/lib/projection';
+import type { WindDataFormat } from '@/lib/windBinary';
+import {
+  chooseTileRange,
+  mosaicWindTiles,
+  tileBounds,
+  tileProjection,
+  tileRangeKey,
+  tilesInRange,
+  tileUrl,
+} from '@/lib/windPyramid';
+import type { TileRange, WindPyramidBlock, WindViewport } from '@/lib/windPyramid';
+import { resolveWindLevel, windLevelsFromMetadata } from '@/lib/windLevels';
+import type { WindLevel, WindLevelBlock } from '@/lib/windLevels';
+import type { WindFieldCache, WindFieldLoad, WindFieldStatus } from '@/lib/windFieldCache';
 
 export interface WindData {
-  imageData: ImageData;
+  /** Decoded u/v/speed grid at fromHour */
+  field: WindField;
+  /** Grid at toHour, blended in by timeFraction (null when not between two hours) */
+  next: WindField | null;
+  fromHour: number;
+  toHour: number;
+  /** Vertical level the fields are for (files, color scale, particle speed) */
+  level: WindLevel;
   width: number;
   height: number;
   bounds: {
@@ -21,33 +55,46 @@ export interface LatestWindMetadata {
     timestamp: string;
   };
   forecast_hours: number[];
+  /** Wire format of the files (default "png"); "binary" is float16/int16, see lib/windBinary */
+  format?: WindDataFormat;
   tiles: {
     base_url: string;
     filename_pattern: string;
     width: number;
     height: number;
   };
-  encoding: {
-    r_channel: string;
-    g_channel: string;
-    b_channel: string;
-    min_value: number;
-    max_value: number;
-    zero_value: number;
-  };
+  /** Quantization of the PNG channels (required for the png format unless every level has one) */
+  encoding?: WindEncodingBlock;
+  /** Published vertical levels; without it, tiles.filename_pattern is the 10 m level */
+  levels?: WindLevelBlock[];
+  /** Lat/lng box of a linear grid (or the box enclosing a projected one) */
   bounds: {
     west: number;
     east: number;
     north: number;
     south: number;
   };
+  /** Native projected grid (e.g. HRRR Lambert Conformal); absent for lat/lng grids */
+  projection?: GridProjectionBlock;
+  /** z/x/y tiles for zoomed-in views; the full-domain file is used below pyramid.min_zoom */
+  pyramid?: WindPyramidBlock;
   generated_at: string;
 }
 
 interface UseWindDataOptions {
   metadataUrl?: string;
   forecastHour?: string;
+  /** Fractional forecast hour (e.g. 3.4); overrides forecastHour */
+  forecastTime?: number;
   enabled?: boolean;
+  /** Forecast hours to load ahead of the current one, in play direction (default 3) */
+  prefetchHours?: number;
+  /** Memory budget for decoded fields in bytes (default DEFAULT_WIND_CACHE_BYTES) */
+  cacheBytes?: number;
+  /** Visible map area; selects pyramid tiles when the metadata has a pyramid */
+  viewport?: WindViewport | null;
+  /** Wind level id ("10m", "250mb", ...); defaults to the metadata's first level */
+  level?: string;
 }
 
 // HRRR CONUS bounds (fallback)
@@ -58,35 +105,155 @@ const HRRR_BOUNDS = {
   north: 52.6,
 };
 
+/**
+ * Cache key of one forecast hour of one level of one model run
+ */
+function fieldKey(meta: LatestWindMetadata, level: string, hour: number): string {
+  return `${meta.model_run.timestamp}/${level}/${hour}`;
+}
+
+/**
+ * Cache keys making up one forecast hour: the full-domain file, or the
+ * pyramid tiles covering the view
+ */
+function coverageKeys(
+  meta: LatestWindMetadata,
+  level: string,
+  hour: number,
+  range: TileRange | null
+): string[] {
+  const key = fieldKey(meta, level, hour);
+  if (!range) return [key];
+  return tilesInRange(range).map(({ z, x, y }) => `${key}/${z}/${x}/${y}`);
+}
+
+/**
+ * Combined status of an hour's cache entries (undefined until all were requested)
+ */
+function coverageStatus(cache: WindFieldCache, keys: string[]): WindFieldStatus | undefined {
+  const statuses = keys.map((key) => cache.status(key));
+  if (statuses.includes('error')) return 'error';
+  if (statuses.includes(undefined)) return undefined;
+  return statuses.includes('loading') ? 'loading' : 'ready';
+}
+
+/**
+ * Forecast hours around `time`: the first hour >= time and the one before it,
+ * so a time moving forward from one hour to the next stays inside one bracket.
+ */
+function findBracket(hours: number[], time: number): [number, number] {
+  const sorted = [...hours].sort((a, b) => a - b);
+  if (sorted.length === 0) return [Math.round(time), Math.round(time)];
+  if (time <= sorted[0]) return [sorted[0], sorted[0]];
+
+  const upperIndex = sorted.findIndex((hour) => hour >= time);
+  if (upperIndex === -1) {
+    const last = sorted[sorted.length - 1];
+    return [last, last];
+  }
+  return [sorted[upperIndex - 1], sorted[upperIndex]];
+}
+
+/**
+ * Up to `count` forecast hours past the bracket in the direction of play
+ */
+function hoursAhead(hours: number[], bracket: [number, number], direction: 1 | -1, count: number): number[] {
+  const sorted = [...hours].sort((a, b) => a - b);
+  if (direction > 0) {
+    return sorted.filter((hour) => hour > bracket[1]).slice(0, count);
+  }
+  return sorted.filter((hour) => hour < bracket[0]).reverse().slice(0, count);
+}
+
 export function useWindData(options: UseWindDataOptions = {}) {
   const {
     metadataUrl = 'https://driftwise-weather-data.s3.amazonaws.com/metadata/latest_wind.json',
     forecastHour = '00',
+    forecastTime,
     enabled = true,
+    prefetchHours = 3,
+    cacheBytes,
+    viewport,
+    level,
   } = options;
+  const time = forecastTime ?? (parseInt(forecastHour, 10) || 0);
 
   const [windData, setWindData] = useState<WindData | null>(null);
   const [metadata, setMetadata] = useState<LatestWindMetadata | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const [validationIssues, setValidationIssues] = useState<ValidationIssue[]>([]);
+  // Set while the metadata in use came from the offline cache (epoch ms it was cached)
+  const [metadataCachedAt, setMetadataCachedAt] = useState<number | null>(null);
+  const fetchedRef = useRef(false);
+  const [hourStatus, setHourStatus] = useState<Record<number, WindFieldStatus>>({});
+  const cacheRef = useRef<WindFieldCache | null>(null);
+  if (!cacheRef.current) {
+    cacheRef.current = createWindFieldCache({ maxBytes: cacheBytes });
+  }
+  const cache = cacheRef.current;
+  const nextSignal = useAbortSignal();
+
+  // Play direction, from how the requested time last moved
+  const directionRef = useRef<1 | -1>(1);
+  const lastTimeRef = useRef(time);
+  if (time !== lastTimeRef.current) {
+    directionRef.current = time > lastTimeRef.current ? 1 : -1;
+    lastTimeRef.current = time;
+  }
+
+  // Cancel background loads on unmount
+  useEffect(() => () => cache.clear(), [cache]);
+
+  // Serve the last good metadata immediately on startup
+  useEffect(() => {
+    readCachedMetadata<unknown>(METADATA_CACHE_KEYS.wind).then((cached) => {
+      if (!cached || fetchedRef.current) return;
+      try {
+        setMetadata(validateWindMetadata(cached.data));
+        setMetadataCachedAt(cached.cachedAt);
+      } catch {
+        // Ignore invalid cached copies
+      }
+    });
+  }, []);
 
-  // Fetch latest metadata
-  const fetchMetadata = useCallback(async (): Promise<LatestWindMetadata | null> => {
+  // Fetch latest metadata, falling back to the cached copy
+  // (throws on network or validation failure when nothing is cached)
+  const fetchMetadata = useCallback(async (signal: AbortSignal): Promise<LatestWindMetadata> => {
+    let served: LatestWindMetadata | null = null;
     try {
-      const cacheBuster = `?_t=${Date.now()}`;
-      const res = await fetch(metadataUrl + cacheBuster, {
-        cache: 'no-store',
-      });
-      if (!res.ok) {
-        throw new Error(`Failed to fetch metadata: ${res.status}`);
+      const fetchFresh = async () => {
+        const cacheBuster = `?_t=${Date.now()}`;
+        const data = await fetchJson(metadataUrl + cacheBuster, {
+          signal,
+          cache: 'no-store',
+          label: 'wind metadata',
+        });
+        return validateWindMetadata(data);
+      };
+
+      const { error: revalidationError } = await loadWithCache(
+        METADATA_CACHE_KEYS.wind,
+        fetchFresh,
+        (data, cachedAt) => {
+          if (signal.aborted) return;
+          fetchedRef.current = true;
+          served = data;
+          setMetadata(data);
+          setMetadataCachedAt(cachedAt);
+        },
+        { validate: validateWindMetadata }
+      );
+      if (revalidationError) {
+        console.warn('Using cached latest_wind.json:', revalidationError);
       }
-      const data = await res.json();
-      setMetadata(data);
-      return data;
+      return served!;
     } catch (e) {
-      console.error('Failed to fetch latest_wind.json:', e);
-      return null;
+      if (!isAbortError(e)) {
+        console.error('Failed to fetch latest_wind.json:', e);
+      }
+      throw e;
     }
   }, [metadataUrl]);
 
@@ -94,80 +261,181 @@ export function useWindData(options: UseWindDataOptions = {}) {
   const loadWindData = useCallback(async () => {
     if (!enabled) return;
 
+    // A new load (forecast change or refresh) cancels the previous one
+    const signal = nextSignal();
     setLoading(true);
     setError(null);
+    setValidationIssues([]);
 
     try {
       // Fetch latest metadata first
-      let meta = metadata;
-      if (!meta) {
-        meta = await fetchMetadata();
-      }
+      // Cached metadata is only a placeholder - revalidate before loading tiles
+      const meta =
+        metadata && metadataCachedAt === null ? metadata : await fetchMetadata(signal);
 
-      if (!meta) {
-        throw new Error('Could not load wind metadata');
-      }
+      // Use bounds from metadata (derived from the grid when only a projection is given)
+      const projection = gridProjectionFromMetadata(meta.projection);
+      const bounds =
+        meta.bounds ||
+        (projection
+          ? projectedGridBounds(projection, meta.tiles.width, meta.tiles.height)
+          : HRRR_BOUNDS);
+      const windLevel = resolveWindLevel(windLevelsFromMetadata(meta), level);
+      const encoding = windEncodingFromMetadata(windLevel.encoding);
+      const format = meta.format ?? 'png';
 
-      // Build tile URL from metadata
-      const forecastNum = forecastHour.padStart(2, '0');
-      const pngUrl = meta.tiles.base_url + '/' + 
-        meta.tiles.filename_pattern.replace('{forecast}', forecastNum);
-
-      console.log('Loading wind tile:', pngUrl);
-
-      // Load PNG image
-      const img = new Image();
-      img.crossOrigin = 'anonymous';
-      
-      await new Promise<void>((resolve, reject) => {
-        img.onload = () => resolve();
-        img.onerror = () => reject(new Error(`Failed to load wind image: ${pngUrl}`));
-        img.src = pngUrl;
-      });
+      // Pyramid tiles covering the view when zoomed in, else the full-domain file
+      const pyramid = meta.pyramid;
+      const range = pyramid ? chooseTileRange(pyramid, viewport) : null;
 
-      // Create canvas to extract pixel data
-      if (!canvasRef.current) {
-        canvasRef.current = document.createElement('canvas');
-      }
-      const canvas = canvasRef.current;
-      canvas.width = img.width;
-      canvas.height = img.height;
+      // Fetch and decode one file off the main thread (shared with prefetches)
+      const fetchFile = (
+        url: string,
+        fileBounds: WindFieldBounds,
+        fileProjection: GridProjection | null
+      ): WindFieldLoad => (loadSignal) => {
+        console.log(`Loading wind tile (${format}):`, url);
+        return loadWindField(url, {
+          bounds: fileBounds,
+          encoding,
+          format,
+          projection: fileProjection,
+          signal: loadSignal,
+        });
+      };
 
-      const ctx = canvas.getContext('2d');
-      if (!ctx) {
-        throw new Error('Failed to get canvas context');
-      }
+      // Cache entries making up one forecast hour, in coverageKeys order
+      const hourLoads = (hour: number): { key: string; load: WindFieldLoad }[] => {
+        // Build tile URL from metadata
+        const forecastNum = String(hour).padStart(2, '0');
+        const keys = coverageKeys(meta, windLevel.id, hour, range);
+        if (!pyramid || !range) {
+          const url = meta.tiles.base_url + '/' + 
+            windLevel.filenamePattern.replace('{forecast}', forecastNum);
+          return [{ key: keys[0], load: fetchFile(url, bounds, projection) }];
+        }
+        return tilesInRange(range).map((tile, index) => ({
+          key: keys[index],
+          load: fetchFile(
+            tileUrl(pyramid, forecastNum, tile, windLevel.id),
+            tileBounds(tile),
+            tileProjection({ z: tile.z, minX: tile.x, minY: tile.y }, pyramid.tile_size)
+          ),
+        }));
+      };
 
-      ctx.drawImage(img, 0, 0);
-      const imageData = ctx.getImageData(0, 0, img.width, img.height);
+      const loadHour = async (hour: number): Promise<WindField> => {
+        const loads = hourLoads(hour);
+        if (!pyramid || !range) return cache.get(loads[0].key, loads[0].load, signal);
 
-      // Use bounds from metadata
-      const bounds = meta.bounds || HRRR_BOUNDS;
+        // A missing tile leaves a masked hole instead of failing the whole hour
+        const tiles = await Promise.all(
+          loads.map(({ key, load }) =>
+            cache.get(key, load, signal).catch((err) => {
+              if (isAbortError(err)) throw err;
+              console.warn(`Wind tile ${key} unavailable:`, err);
+              return null;
+            })
+          )
+        );
+        return mosaicWindTiles(range, pyramid.tile_size, tiles);
+      };
+
+      // Load both forecast hours around the requested time
+      const bracket = findBracket(meta.forecast_hours, time);
+      const [fromHour, toHour] = bracket;
+      cache.pin([
+        ...coverageKeys(meta, windLevel.id, fromHour, range),
+        ...coverageKeys(meta, windLevel.id, toHour, range),
+      ]);
+      const [field, next] = await Promise.all([
+        loadHour(fromHour),
+        toHour !== fromHour ? loadHour(toHour) : Promise.resolve(null),
+      ]);
+
+      // Warm the next hours in play direction, as many as fit beside the bracket
+      // (none when the budget barely holds the bracket, so prefetch never evicts it)
+      const fitting = Math.max(0, Math.floor(cache.maxBytes / windFieldBytes(field)) - 2);
+      const prefetchCount = Math.min(prefetchHours, fitting);
+      if (prefetchCount > 0) {
+        const ahead = hoursAhead(meta.forecast_hours, bracket, directionRef.current, prefetchCount);
+        ahead.forEach((hour) => hourLoads(hour).forEach(({ key, load }) => cache.prefetch(key, load)));
+      }
 
       setWindData({
-        imageData,
-        width: img.width,
-        height: img.height,
-        bounds,
+        field,
+        next,
+        fromHour,
+        toHour,
+        level: windLevel,
+        width: field.width,
+        height: field.height,
+        bounds: field.bounds,
         metadata: meta,
       });
 
-      console.log(`Wind data loaded: ${img.width}x${img.height}, forecast F${forecastNum}`);
+      console.log(`Wind data loaded: ${field.width}x${field.height}, ${windLevel.id}, forecast F${fromHour}-F${toHour}`);
     } catch (err) {
+      if (isAbortError(err)) return;
       const message = err instanceof Error ? err.message : 'Unknown error loading wind data';
       setError(message);
+      setValidationIssues(getValidationIssues(err));
       console.error('Wind data load error:', err);
     } finally {
-      setLoading(false);
+      if (!signal.aborted) {
+        setLoading(false);
+      }
     }
-  }, [enabled, metadata, forecastHour, fetchMetadata]);
+  }, [enabled, metadata, metadataCachedAt, time, prefetchHours, viewport, level, cache, fetchMetadata, nextSignal]);
+
+  // Only reload when the time crosses into a different pair of forecast hours
+  const bracketKey = metadata
+    ? findBracket(metadata.forecast_hours, time).join('-')
+    : String(Math.ceil(time));
+
+  // ...or the view needs different pyramid tiles
+  const tileRange = useMemo(
+    () => (metadata?.pyramid ? chooseTileRange(metadata.pyramid, viewport) : null),
+    [metadata, viewport]
+  );
+  const coverageKey = tileRange ? tileRangeKey(tileRange) : 'full';
+
+  // Levels the metadata publishes, and the one in use
+  const levels = useMemo(() => (metadata ? windLevelsFromMetadata(metadata) : []), [metadata]);
+  const activeLevel = levels.length > 0 ? resolveWindLevel(levels, level) : null;
+  const levelId = activeLevel?.id ?? level ?? '';
 
   // Auto-load when parameters change
   useEffect(() => {
     if (enabled) {
       loadWindData();
     }
-  }, [enabled, forecastHour]);
+  }, [enabled, bracketKey, coverageKey, levelId]);
+
+  // Per-hour load status of the current run, for timeline indicators
+  useEffect(() => {
+    if (!metadata) {
+      setHourStatus({});
+      return;
+    }
+    const update = () => {
+      const status: Record<number, WindFieldStatus> = {};
+      metadata.forecast_hours.forEach((hour) => {
+        const entryStatus = coverageStatus(cache, coverageKeys(metadata, levelId, hour, tileRange));
+        if (entryStatus) status[hour] = entryStatus;
+      });
+      setHourStatus(status);
+    };
+    update();
+    return cache.subscribe(update);
+  }, [metadata, coverageKey, levelId, cache]);
+
+  // Position of the requested time between windData.fromHour and toHour (0-1)
+  const timeFraction = useMemo(() => {
+    if (!windData || !windData.next) return 0;
+    const { fromHour, toHour } = windData;
+    return Math.min(1, Math.max(0, (time - fromHour) / (toHour - fromHour)));
+  }, [windData, time]);
 
   // Refresh metadata and reload
   const refresh = useCallback(async () => {
@@ -175,59 +443,41 @@ export function useWindData(options: UseWindDataOptions = {}) {
     await loadWindData();
   }, [loadWindData]);
 
-  // Decode wind component from 0-255 to m/s
-  const decodeWindComponent = useCallback((encoded: number, min = -50, max = 50): number => {
-    const normalized = encoded / 255;
-    return normalized * (max - min) + min;
-  }, []);
-
   // Helper to get wind vector at a given pixel coordinate
-  const getWindAtPixel = useCallback((x: number, y: number): { u: number; v: number; magnitude: number } | null => {
+  const getWindAtPixel = useCallback((x: number, y: number, mode: SamplingMode = 'bilinear'): WindSample | null => {
     if (!windData) return null;
-    
-    const { imageData, width, height } = windData;
-    const px = Math.floor(x);
-    const py = Math.floor(y);
-    
-    if (px < 0 || px >= width || py < 0 || py >= height) return null;
-    
-    const idx = (py * width + px) * 4;
-    const r = imageData.data[idx];     // U component
-    const g = imageData.data[idx + 1]; // V component
-    const b = imageData.data[idx + 2]; // Magnitude
-    const a = imageData.data[idx + 3]; // Alpha (valid data mask)
-    
-    if (a === 0) return null; // No data at this location
-    
-    const u = decodeWindComponent(r);
-    const v = decodeWindComponent(g);
-    const magnitude = (b / 255) * 70.7; // Max magnitude ~70 m/s
-    
-    return { u, v, magnitude };
-  }, [windData, decodeWindComponent]);
+    return sampleWindFieldBlend(windData.field, windData.next, timeFraction, x, y, mode);
+  }, [windData, timeFraction]);
 
   // Helper to get wind at lat/lng
-  const getWindAtLatLng = useCallback((lat: number, lng: number): { u: number; v: number; magnitude: number } | null => {
+  const getWindAtLatLng = useCallback((lat: number, lng: number, mode: SamplingMode = 'bilinear'): WindSample | null => {
     if (!windData) return null;
-    
-    const { width, height, bounds } = windData;
-    
-    // Convert lat/lng to pixel coordinates
-    const x = ((lng - bounds.west) / (bounds.east - bounds.west)) * width;
-    const y = ((bounds.north - lat) / (bounds.north - bounds.south)) * height;
-    
-    return getWindAtPixel(x, y);
+    const { x, y } = lngLatToGrid(windData.field, lng, lat);
+    return getWindAtPixel(x, y, mode);
   }, [windData, getWindAtPixel]);
 
+  // Helper to get the gust speed (m/s) at lat/lng; null without a gust field
+  const getGustAtLatLng = useCallback((lat: number, lng: number, mode: SamplingMode = 'bilinear'): number | null => {
+    return getWindAtLatLng(lat, lng, mode)?.gust ?? null;
+  }, [getWindAtLatLng]);
+
   return {
     windData,
+    timeFraction,
     metadata,
     loading,
     error,
+    validationIssues,
+    metadataCachedAt,
     refresh,
     getWindAtPixel,
     getWindAtLatLng,
+    getGustAtLatLng,
+    hasGust: Boolean(windData?.field.gust),
     availableForecastHours: metadata?.forecast_hours || [],
+    hourStatus,
+    levels,
+    level: activeLevel,
   };
 }
 
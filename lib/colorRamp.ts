@@ -0,0 +1,201 @@
+/**
+ * Color Ramp
+ *
+ * Conversions between data values and colors for the pipeline's colored
+ * tiles. The tiles only carry RGBA, so values are recovered by projecting
+ * each pixel onto the piecewise-linear ramp described by a variable's
+ * `color_stops`. Also provides the diverging ramp used for difference layers.
+ */
+
+import type { ColorStop } from "@/hooks/useModelMetadata";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type RGB = [number, number, number];
+
+/** Returns the data value for a pixel, or null when it carries no data */
+export type ColorDecoder = (r: number, g: number, b: number, a: number) => number | null;
+
+/** Returns the RGB color for a data value */
+export type ColorEncoder = (value: number) => RGB;
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+/** Pixels below this alpha are treated as "no data" */
+const MIN_ALPHA = 128;
+
+/** Decoded colors are memoized; the cache is reset when it grows past this */
+const DECODE_CACHE_LIMIT = 65536;
+
+/** Red-blue diverging ramp on [-1, 1] (ColorBrewer RdBu, blue = decrease) */
+export const DIVERGING_STOPS: ColorStop[] = [
+  { value: -1, color: "#2166ac" },
+  { value: -0.66, color: "#67a9cf" },
+  { value: -0.33, color: "#d1e5f0" },
+  { value: 0, color: "#f7f7f7" },
+  { value: 0.33, color: "#fddbc7" },
+  { value: 0.66, color: "#ef8a62" },
+  { value: 1, color: "#b2182b" },
+];
+
+// =============================================================================
+// Color Parsing
+// =============================================================================
+
+/**
+ * Parse "#rgb", "#rrggbb" or "rgb()/rgba()" colors (null if unrecognized)
+ */
+export function parseColor(color: string): RGB | null {
+  const value = color.trim();
+
+  const hex = value.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (hex) {
+    const digits =
+      hex[1].length === 3
+        ? hex[1].split("").map((d) => d + d).join("")
+        : hex[1];
+    return [
+      parseInt(digits.slice(0, 2), 16),
+      parseInt(digits.slice(2, 4), 16),
+      parseInt(digits.slice(4, 6), 16),
+    ];
+  }
+
+  const rgb = value.match(/^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)/i);
+  if (rgb) {
+    return [Number(rgb[1]), Number(rgb[2]), Number(rgb[3])];
+  }
+
+  return null;
+}
+
+const parseStops = (stops: ColorStop[]) =>
+  stops
+    .map((stop) => ({ value: stop.value, rgb: parseColor(stop.color) }))
+    .filter((stop): stop is { value: number; rgb: RGB } => stop.rgb !== null)
+    .sort((a, b) => a.value - b.value);
+
+// =============================================================================
+// Decoding / Encoding
+// =============================================================================
+
+/**
+ * Create a decoder that maps tile pixels back to data values.
+ * Each color is projected onto the closest ramp segment and the value is
+ * interpolated along that segment.
+ */
+export function createColorDecoder(stops: ColorStop[]): ColorDecoder {
+  const parsed = parseStops(stops);
+  const cache = new Map<number, number>();
+
+  const project = (r: number, g: number, b: number): number => {
+    if (parsed.length === 1) return parsed[0].value;
+
+    let bestValue = parsed[0].value;
+    let bestDistance = Infinity;
+
+    for (let i = 0; i < parsed.length - 1; i++) {
+      const start = parsed[i];
+      const end = parsed[i + 1];
+      const dr = end.rgb[0] - start.rgb[0];
+      const dg = end.rgb[1] - start.rgb[1];
+      const db = end.rgb[2] - start.rgb[2];
+      const lengthSq = dr * dr + dg * dg + db * db;
+
+      const t =
+        lengthSq === 0
+          ? 0
+          : Math.max(
+              0,
+              Math.min(
+                1,
+                ((r - start.rgb[0]) * dr + (g - start.rgb[1]) * dg + (b - start.rgb[2]) * db) /
+                  lengthSq
+              )
+            );
+
+      const er = start.rgb[0] + dr * t - r;
+      const eg = start.rgb[1] + dg * t - g;
+      const eb = start.rgb[2] + db * t - b;
+      const distance = er * er + eg * eg + eb * eb;
+
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        bestValue = start.value + (end.value - start.value) * t;
+      }
+    }
+
+    return bestValue;
+  };
+
+  return (r, g, b, a) => {
+    if (parsed.length === 0 || a < MIN_ALPHA) return null;
+
+    const key = (r << 16) | (g << 8) | b;
+    const cached = cache.get(key);
+    if (cached !== undefined) return cached;
+
+    if (cache.size >= DECODE_CACHE_LIMIT) cache.clear();
+    const value = project(r, g, b);
+    cache.set(key, value);
+    return value;
+  };
+}
+
+/**
+ * Create an encoder that linearly interpolates colors between stops.
+ * Values outside the ramp are clamped to the end colors.
+ */
+export function createColorEncoder(stops: ColorStop[]): ColorEncoder {
+  const parsed = parseStops(stops);
+
+  return (value) => {
+    if (parsed.length === 0) return [0, 0, 0];
+    if (value <= parsed[0].value) return parsed[0].rgb;
+
+    for (let i = 0; i < parsed.length - 1; i++) {
+      const start = parsed[i];
+      const end = parsed[i + 1];
+      if (value <= end.value) {
+        const t = end.value === start.value ? 0 : (value - start.value) / (end.value - start.value);
+        return [
+          Math.round(start.rgb[0] + (end.rgb[0] - start.rgb[0]) * t),
+          Math.round(start.rgb[1] + (end.rgb[1] - start.rgb[1]) * t),
+          Math.round(start.rgb[2] + (end.rgb[2] - start.rgb[2]) * t),
+        ];
+      }
+    }
+
+    return parsed[parsed.length - 1].rgb;
+  };
+}
+
+// =============================================================================
+// Diverging Ramp Helpers
+// =============================================================================
+
+/**
+ * Diverging stops scaled to [-maxAbs, maxAbs], centered on zero
+ */
+export function divergingColorStops(maxAbs: number): ColorStop[] {
+  return DIVERGING_STOPS.map((stop) => ({ value: stop.value * maxAbs, color: stop.color }));
+}
+
+/**
+ * Default symmetric range for differences of a variable: a quarter of the
+ * variable's color ramp span, rounded to a readable number.
+ */
+export function defaultDifferenceRange(stops: ColorStop[]): number {
+  if (stops.length < 2) return 1;
+  const values = stops.map((stop) => stop.value);
+  const span = Math.max(...values) - Math.min(...values);
+  const range = span / 4;
+  if (range <= 0) return 1;
+
+  const magnitude = Math.pow(10, Math.floor(Math.log10(range)));
+  return Math.ceil(range / magnitude) * magnitude;
+}
@@ -0,0 +1,85 @@
+/**
+ * Data Freshness
+ *
+ * Computes how old a model run is against the client clock, instead of
+ * trusting the `data_freshness` block the pipeline wrote at publish time
+ * (which never advances while the page stays open). Uses the model's run
+ * cadence and publish delay to detect runs that are overdue.
+ */
+
+import type { ModelDefinition } from "@/lib/modelRegistry";
+import type { ModelMetadata } from "@/hooks/useModelMetadata";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** "delayed": the next run should have been published by now */
+export type FreshnessStatus = "fresh" | "stale" | "delayed";
+
+export interface ModelFreshness {
+  status: FreshnessStatus;
+  /** Minutes since the model run's cycle time */
+  runAgeMinutes: number;
+  /** Minutes since the pipeline wrote the metadata (null if unknown) */
+  publishedAgeMinutes: number | null;
+  /** When the next run is expected to be published (epoch ms) */
+  nextRunDueAt: number;
+  /** Minutes past nextRunDueAt plus grace (0 unless delayed) */
+  overdueMinutes: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+// =============================================================================
+// Freshness
+// =============================================================================
+
+/**
+ * Freshness of a metadata document's model run at `now` (epoch ms)
+ */
+export function getModelFreshness(
+  model: ModelDefinition,
+  metadata: Pick<ModelMetadata, "model_run" | "generated_at">,
+  now: number
+): ModelFreshness {
+  const { maxAgeMinutes, publishDelayMinutes, overdueGraceMinutes } = model.freshness;
+
+  const runTime = metadata.model_run.unix_timestamp * 1000;
+  const runAgeMinutes = Math.max(0, Math.floor((now - runTime) / MINUTE_MS));
+
+  const generatedAt = Date.parse(metadata.generated_at);
+  const publishedAgeMinutes = Number.isNaN(generatedAt)
+    ? null
+    : Math.max(0, Math.floor((now - generatedAt) / MINUTE_MS));
+
+  // The next cycle is published roughly publishDelay after its cycle time
+  const nextRunDueAt =
+    runTime + model.cadenceHours * 60 * MINUTE_MS + publishDelayMinutes * MINUTE_MS;
+  const overdueMinutes = Math.max(
+    0,
+    Math.floor((now - nextRunDueAt) / MINUTE_MS) - overdueGraceMinutes
+  );
+
+  let status: FreshnessStatus = "fresh";
+  if (overdueMinutes > 0) {
+    status = "delayed";
+  } else if (runAgeMinutes > maxAgeMinutes) {
+    status = "stale";
+  }
+
+  return { status, runAgeMinutes, publishedAgeMinutes, nextRunDueAt, overdueMinutes };
+}
+
+// =============================================================================
+// Formatting
+// =============================================================================
+
+/**
+ * Compact age for badges: "12m ago", "3h ago", "2d ago"
+ */
+export function formatAgeShort(minutes: number): string {
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 1440) return `${Math.floor(minutes / 60)}h ago`;
+  return `${Math.floor(minutes / 1440)}d ago`;
+}
@@ -0,0 +1,149 @@
+/**
+ * Density Masks
+ *
+ * User-supplied spawn density for the "mask" particle strategy, read from
+ * GeoJSON polygons. Each Polygon / MultiPolygon feature weights the area it
+ * covers by its `density` property (0-1, default 1); where features overlap
+ * the highest density wins, and outside every polygon no particles spawn.
+ */
+
+import type { DensityMask } from "@/lib/particleSimulation";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+type Ring = number[][]; // [lng, lat] positions
+
+interface MaskPolygon {
+  rings: Ring[]; // Outer ring, then holes
+  density: number;
+  west: number;
+  east: number;
+  south: number;
+  north: number;
+}
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isRing = (value: unknown): value is Ring =>
+  Array.isArray(value) &&
+  value.length >= 3 &&
+  value.every(
+    (position) =>
+      Array.isArray(position) &&
+      position.length >= 2 &&
+      Number.isFinite(position[0]) &&
+      Number.isFinite(position[1])
+  );
+
+function toPolygon(rings: unknown, density: number): MaskPolygon | null {
+  if (!Array.isArray(rings) || rings.length === 0 || !rings.every(isRing)) return null;
+
+  const polygon: MaskPolygon = {
+    rings,
+    density,
+    west: Infinity,
+    east: -Infinity,
+    south: Infinity,
+    north: -Infinity,
+  };
+  for (const [lng, lat] of rings[0]) {
+    polygon.west = Math.min(polygon.west, lng);
+    polygon.east = Math.max(polygon.east, lng);
+    polygon.south = Math.min(polygon.south, lat);
+    polygon.north = Math.max(polygon.north, lat);
+  }
+  return polygon;
+}
+
+// Polygons of one geometry, skipping other geometry types and malformed rings
+function collectPolygons(geometry: unknown, density: number, polygons: MaskPolygon[]): void {
+  if (!isRecord(geometry)) return;
+
+  if (geometry.type === "Polygon") {
+    const polygon = toPolygon(geometry.coordinates, density);
+    if (polygon) polygons.push(polygon);
+  } else if (geometry.type === "MultiPolygon" && Array.isArray(geometry.coordinates)) {
+    geometry.coordinates.forEach((rings) => {
+      const polygon = toPolygon(rings, density);
+      if (polygon) polygons.push(polygon);
+    });
+  } else if (geometry.type === "GeometryCollection" && Array.isArray(geometry.geometries)) {
+    geometry.geometries.forEach((child) => collectPolygons(child, density, polygons));
+  }
+}
+
+function featureDensity(properties: unknown): number {
+  const density = isRecord(properties) ? properties.density : undefined;
+  if (typeof density !== "number" || !Number.isFinite(density)) return 1;
+  return Math.min(1, Math.max(0, density));
+}
+
+// =============================================================================
+// Point in Polygon
+// =============================================================================
+
+// Even-odd ray cast toward +lng
+function ringContains(ring: Ring, lng: number, lat: number): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [lngI, latI] = ring[i];
+    const [lngJ, latJ] = ring[j];
+    if (latI > lat !== latJ > lat && lng < ((lngJ - lngI) * (lat - latI)) / (latJ - latI) + lngI) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+function polygonContains(polygon: MaskPolygon, lng: number, lat: number): boolean {
+  if (lng < polygon.west || lng > polygon.east || lat < polygon.south || lat > polygon.north) {
+    return false;
+  }
+  const [outer, ...holes] = polygon.rings;
+  return ringContains(outer, lng, lat) && !holes.some((hole) => ringContains(hole, lng, lat));
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Density mask from a parsed GeoJSON FeatureCollection, Feature or geometry.
+ * Throws when it holds no usable polygon.
+ */
+export function densityMaskFromGeoJson(geojson: unknown): DensityMask {
+  const polygons: MaskPolygon[] = [];
+
+  if (isRecord(geojson) && geojson.type === "FeatureCollection" && Array.isArray(geojson.features)) {
+    geojson.features.forEach((feature) => {
+      if (isRecord(feature)) {
+        collectPolygons(feature.geometry, featureDensity(feature.properties), polygons);
+      }
+    });
+  } else if (isRecord(geojson) && geojson.type === "Feature") {
+    collectPolygons(geojson.geometry, featureDensity(geojson.properties), polygons);
+  } else {
+    collectPolygons(geojson, 1, polygons);
+  }
+
+  if (polygons.length === 0) {
+    throw new Error("Density mask has no Polygon or MultiPolygon features");
+  }
+
+  return (lng, lat) => {
+    let density = 0;
+    for (const polygon of polygons) {
+      if (polygon.density > density && polygonContains(polygon, lng, lat)) {
+        density = polygon.density;
+      }
+    }
+    return density;
+  };
+}
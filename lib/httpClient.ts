@@ -0,0 +1,332 @@
+/**
+ * HTTP Client
+ *
+ * Shared fetch wrapper for every metadata and data request: per-attempt
+ * timeouts, retries with exponential backoff, AbortSignal cancellation and
+ * coalescing of identical in-flight GET requests. Failures are thrown as
+ * HttpError / NetworkError / ParseError so callers can tell them apart.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface RequestOptions {
+  /** Cancels the request (and any pending retry) for this caller */
+  signal?: AbortSignal;
+  /** Retries after the first attempt (default 2) */
+  retries?: number;
+  /** First retry delay; doubles each attempt (default 500ms) */
+  retryDelayMs?: number;
+  /** Upper bound for the backoff delay (default 8s) */
+  maxRetryDelayMs?: number;
+  /** Per-attempt timeout (default 15s, 0 disables) */
+  timeoutMs?: number;
+  /** Share one request between concurrent calls with the same URL and options (default true) */
+  dedupe?: boolean;
+  /** Human-readable name used in error messages ("HRRR metadata") */
+  label?: string;
+  cache?: RequestCache;
+  headers?: HeadersInit;
+}
+
+type ResponseType = "json" | "blob";
+
+// =============================================================================
+// Errors
+// =============================================================================
+
+/**
+ * The server answered with a non-2xx status
+ */
+export class HttpError extends Error {
+  readonly url: string;
+  readonly status: number;
+  readonly statusText: string;
+
+  constructor(url: string, status: number, statusText: string, label?: string) {
+    super(`Failed to fetch ${label ?? url}: ${status}${statusText ? ` ${statusText}` : ""}`);
+    this.name = "HttpError";
+    this.url = url;
+    this.status = status;
+    this.statusText = statusText;
+  }
+}
+
+/**
+ * The request never got a response (offline, DNS, CORS, timeout)
+ */
+export class NetworkError extends Error {
+  readonly url: string;
+  readonly timedOut: boolean;
+  readonly cause: unknown;
+
+  constructor(url: string, cause: unknown, timedOut = false, label?: string) {
+    super(
+      timedOut
+        ? `Timed out fetching ${label ?? url}`
+        : `Network error fetching ${label ?? url}`
+    );
+    this.name = "NetworkError";
+    this.url = url;
+    this.timedOut = timedOut;
+    this.cause = cause;
+  }
+}
+
+/**
+ * The response body could not be read or parsed
+ */
+export class ParseError extends Error {
+  readonly url: string;
+  readonly cause: unknown;
+
+  constructor(url: string, cause: unknown, label?: string) {
+    super(`Invalid response from ${label ?? url}`);
+    this.name = "ParseError";
+    this.url = url;
+    this.cause = cause;
+  }
+}
+
+/**
+ * Whether an error is a cancellation (callers usually ignore these)
+ */
+export function isAbortError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === "AbortError";
+}
+
+const abortError = () => new DOMException("The request was aborted", "AbortError");
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_DELAY_MS = 500;
+const DEFAULT_MAX_RETRY_DELAY_MS = 8000;
+const DEFAULT_TIMEOUT_MS = 15000;
+
+/** Statuses worth retrying: timeouts, rate limits and server errors */
+const isRetryableStatus = (status: number) => status === 408 || status === 429 || status >= 500;
+
+const isRetryable = (err: unknown) =>
+  err instanceof NetworkError || (err instanceof HttpError && isRetryableStatus(err.status));
+
+// =============================================================================
+// Single Request With Retries
+// =============================================================================
+
+/**
+ * Wait for the backoff delay, rejecting early if the signal aborts
+ */
+function delay(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(abortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+async function attempt<T>(
+  url: string,
+  type: ResponseType,
+  options: RequestOptions,
+  signal: AbortSignal
+): Promise<T> {
+  const { timeoutMs = DEFAULT_TIMEOUT_MS, label, cache, headers } = options;
+
+  // Per-attempt controller: aborted by the caller's signal or the timeout
+  const controller = new AbortController();
+  let timedOut = false;
+  const onAbort = () => controller.abort();
+  signal.addEventListener("abort", onAbort, { once: true });
+  const timer =
+    timeoutMs > 0
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeoutMs)
+      : null;
+
+  try {
+    let response: Response;
+    try {
+      response = await fetch(url, { cache, headers, signal: controller.signal });
+    } catch (err) {
+      if (signal.aborted) throw abortError();
+      throw new NetworkError(url, err, timedOut, label);
+    }
+
+    if (!response.ok) {
+      throw new HttpError(url, response.status, response.statusText, label);
+    }
+
+    try {
+      return (type === "json" ? await response.json() : await response.blob()) as T;
+    } catch (err) {
+      if (signal.aborted) throw abortError();
+      if (timedOut) throw new NetworkError(url, err, true, label);
+      throw new ParseError(url, err, label);
+    }
+  } finally {
+    if (timer) clearTimeout(timer);
+    signal.removeEventListener("abort", onAbort);
+  }
+}
+
+async function requestWithRetries<T>(
+  url: string,
+  type: ResponseType,
+  options: RequestOptions,
+  signal: AbortSignal
+): Promise<T> {
+  const {
+    retries = DEFAULT_RETRIES,
+    retryDelayMs = DEFAULT_RETRY_DELAY_MS,
+    maxRetryDelayMs = DEFAULT_MAX_RETRY_DELAY_MS,
+  } = options;
+
+  for (let attemptIndex = 0; ; attemptIndex++) {
+    try {
+      return await attempt<T>(url, type, options, signal);
+    } catch (err) {
+      if (attemptIndex >= retries || !isRetryable(err)) throw err;
+
+      // Exponential backoff with jitter (50-100% of the nominal delay)
+      const nominal = Math.min(retryDelayMs * 2 ** attemptIndex, maxRetryDelayMs);
+      await delay(nominal * (0.5 + Math.random() * 0.5), signal);
+    }
+  }
+}
+
+// =============================================================================
+// In-Flight Coalescing
+// =============================================================================
+
+interface InFlightRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  subscribers: number;
+}
+
+const inFlight = new Map<string, InFlightRequest>();
+
+/**
+ * Coalescing key: calls only share a request when everything that changes
+ * what is fetched or how it is retried matches (headers in canonical order)
+ */
+function requestKey(url: string, type: ResponseType, options: RequestOptions): string {
+  const {
+    retries = DEFAULT_RETRIES,
+    retryDelayMs = DEFAULT_RETRY_DELAY_MS,
+    maxRetryDelayMs = DEFAULT_MAX_RETRY_DELAY_MS,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    cache = "default",
+    headers,
+  } = options;
+  return JSON.stringify([
+    type,
+    url,
+    cache,
+    timeoutMs,
+    retries,
+    retryDelayMs,
+    maxRetryDelayMs,
+    headers ? [...new Headers(headers)] : [],
+  ]);
+}
+
+/**
+ * Run a request, sharing it with concurrent calls that have the same URL
+ * and options. The shared request is only aborted once every caller has
+ * aborted; only the label (for error messages) comes from the first caller.
+ */
+function request<T>(url: string, type: ResponseType, options: RequestOptions): Promise<T> {
+  const { signal, dedupe = true } = options;
+  if (signal?.aborted) return Promise.reject(abortError());
+
+  if (!dedupe) {
+    return requestWithRetries<T>(url, type, options, signal ?? new AbortController().signal);
+  }
+
+  const key = requestKey(url, type, options);
+  let entry = inFlight.get(key);
+  if (!entry) {
+    const controller = new AbortController();
+    const created: InFlightRequest = {
+      promise: requestWithRetries<T>(url, type, options, controller.signal),
+      controller,
+      subscribers: 0,
+    };
+    created.promise
+      .catch(() => {}) // Errors are delivered to each subscriber below
+      .finally(() => {
+        if (inFlight.get(key) === created) inFlight.delete(key);
+      });
+    entry = created;
+    inFlight.set(key, entry);
+  }
+
+  const shared = entry;
+  shared.subscribers++;
+
+  return new Promise<T>((resolve, reject) => {
+    let settled = false;
+    const settle = () => {
+      settled = true;
+      signal?.removeEventListener("abort", onAbort);
+    };
+    const onAbort = () => {
+      if (settled) return;
+      settle();
+      reject(abortError());
+      if (--shared.subscribers === 0) {
+        shared.controller.abort();
+        if (inFlight.get(key) === shared) inFlight.delete(key);
+      }
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    shared.promise.then(
+      (value) => {
+        if (settled) return;
+        settle();
+        resolve(value as T);
+      },
+      (err) => {
+        if (settled) return;
+        settle();
+        reject(err);
+      }
+    );
+  });
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * GET a URL and parse the body as JSON
+ */
+export function fetchJson<T = unknown>(url: string, options: RequestOptions = {}): Promise<T> {
+  return request<T>(url, "json", options);
+}
+
+/**
+ * GET a URL and return the body as a Blob (images, binary tiles)
+ */
+export function fetchBlob(url: string, options: RequestOptions = {}): Promise<Blob> {
+  return request<Blob>(url, "blob", options);
+}
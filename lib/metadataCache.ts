@@ -0,0 +1,182 @@
+/**
+ * Metadata Cache
+ *
+ * Keeps the last good copy of every metadata document (model latest.json
+ * files, latest_wind.json, Mapbox tileset band lists) in IndexedDB so the
+ * app can start from cached data and keep working when S3 or the Mapbox API
+ * is unreachable. Cache failures never break loading - they just mean no
+ * offline copy.
+ */
+
+import { isAbortError } from "@/lib/httpClient";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface CachedMetadata<T> {
+  key: string;
+  data: T;
+  cachedAt: number; // Epoch ms when the document was fetched
+}
+
+export interface LoadWithCacheOptions<T> {
+  /** Serve the cached copy before the network request completes */
+  cacheFirst?: boolean;
+  /** Serve the cached copy when the network request fails (default true) */
+  cacheFallback?: boolean;
+  /** Re-validate cached documents (invalid copies are ignored) */
+  validate?: (data: unknown) => T;
+}
+
+export interface CacheLoadResult {
+  /** The most recent data handed to onData came from the cache */
+  fromCache: boolean;
+  /** Network error, when revalidation failed but cached data was served */
+  error: unknown | null;
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const DB_NAME = "hrrr-weather-viz";
+const DB_VERSION = 1;
+const STORE_NAME = "metadata";
+
+/** Cache keys for each metadata source */
+export const METADATA_CACHE_KEYS = {
+  model: (modelId: string) => `model:${modelId}`,
+  wind: "wind:latest",
+  tileset: (tilesetId: string) => `tileset:${tilesetId}`,
+};
+
+// =============================================================================
+// IndexedDB Access
+// =============================================================================
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is not available"));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: "key" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((err) => {
+      dbPromise = null; // Allow a retry on the next access
+      throw err;
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Read a cached document (null if missing or the cache is unavailable)
+ */
+export async function readCachedMetadata<T>(key: string): Promise<CachedMetadata<T> | null> {
+  try {
+    const db = await openDatabase();
+    return await new Promise<CachedMetadata<T> | null>((resolve, reject) => {
+      const request = db.transaction(STORE_NAME, "readonly").objectStore(STORE_NAME).get(key);
+      request.onsuccess = () => resolve((request.result as CachedMetadata<T>) ?? null);
+      request.onerror = () => reject(request.error);
+    });
+  } catch (err) {
+    console.warn(`Metadata cache read failed (${key}):`, err);
+    return null;
+  }
+}
+
+/**
+ * Store the latest good copy of a document
+ */
+export async function writeCachedMetadata<T>(key: string, data: T): Promise<void> {
+  try {
+    const db = await openDatabase();
+    const entry: CachedMetadata<T> = { key, data, cachedAt: Date.now() };
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, "readwrite");
+      transaction.objectStore(STORE_NAME).put(entry);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } catch (err) {
+    console.warn(`Metadata cache write failed (${key}):`, err);
+  }
+}
+
+// =============================================================================
+// Stale-While-Revalidate Loading
+// =============================================================================
+
+/**
+ * Load a document from the network, falling back to (or, with `cacheFirst`,
+ * starting from) the cached copy. `onData` is called with each copy served;
+ * `cachedAt` is null for fresh network data.
+ *
+ * Rejects with the network error only if no data could be served at all
+ * (with `cacheFallback: false`, whenever the request fails and no cacheFirst
+ * copy was read); aborted requests always reject.
+ */
+export async function loadWithCache<T>(
+  key: string,
+  fetcher: () => Promise<T>,
+  onData: (data: T, cachedAt: number | null) => void,
+  options: LoadWithCacheOptions<T> = {}
+): Promise<CacheLoadResult> {
+  const { cacheFirst = false, cacheFallback = true, validate } = options;
+  let networkDone = false;
+  let servedCache = false;
+
+  const readValidCache = async (): Promise<CachedMetadata<T> | null> => {
+    const cached = await readCachedMetadata<T>(key);
+    if (!cached) return null;
+    try {
+      return validate ? { ...cached, data: validate(cached.data) } : cached;
+    } catch (err) {
+      console.warn(`Ignoring invalid cached metadata (${key}):`, err);
+      return null;
+    }
+  };
+
+  // Serve the cached copy right away, unless the network beats it
+  const cachedPromise = cacheFirst
+    ? readValidCache().then((cached) => {
+        if (cached && !networkDone) {
+          servedCache = true;
+          onData(cached.data, cached.cachedAt);
+        }
+        return cached;
+      })
+    : null;
+
+  try {
+    const data = await fetcher();
+    networkDone = true;
+    onData(data, null);
+    await writeCachedMetadata(key, data);
+    return { fromCache: false, error: null };
+  } catch (err) {
+    networkDone = true;
+    if (isAbortError(err)) throw err;
+
+    if (!cachedPromise && !cacheFallback) throw err;
+
+    const cached = cachedPromise ? await cachedPromise : await readValidCache();
+    if (!cached) throw err;
+
+    if (!servedCache) {
+      onData(cached.data, cached.cachedAt);
+    }
+    return { fromCache: true, error: err };
+  }
+}
@@ -0,0 +1,395 @@
+/**
+ * Metadata Validation
+ *
+ * Runtime validation for the pipeline metadata documents (the per-model
+ * latest.json files and latest_wind.json). Payloads are checked at the
+ * fetch boundary so a malformed document fails with a list of bad field
+ * paths instead of breaking deep inside the layer hooks.
+ */
+
+import type { ModelMetadata } from "@/hooks/useModelMetadata";
+import type { LatestWindMetadata } from "@/hooks/useWindData";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ValidationIssue {
+  path: string; // "tiles.url_template"
+  message: string; // "is required"
+}
+
+/**
+ * Thrown when a metadata document does not match the expected shape.
+ * `issues` lists every problem found, not just the first one.
+ */
+export class MetadataValidationError extends Error {
+  readonly source: string;
+  readonly issues: ValidationIssue[];
+
+  constructor(source: string, issues: ValidationIssue[]) {
+    const [first] = issues;
+    const more = issues.length > 1 ? ` (+${issues.length - 1} more)` : "";
+    super(`Invalid ${source} metadata: ${first.path} ${first.message}${more}`);
+    this.name = "MetadataValidationError";
+    this.source = source;
+    this.issues = issues;
+  }
+}
+
+type Validator = (value: unknown, path: string, issues: ValidationIssue[]) => void;
+
+// =============================================================================
+// Schema Helpers
+// =============================================================================
+
+const describe = (value: unknown): string => {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+};
+
+const joinPath = (path: string, key: string | number): string => {
+  if (typeof key === "number") return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+};
+
+function string(options: { nonEmpty?: boolean; placeholders?: string[] } = {}): Validator {
+  return (value, path, issues) => {
+    if (typeof value !== "string") {
+      issues.push({ path, message: `must be a string (got ${describe(value)})` });
+      return;
+    }
+    if (options.nonEmpty && value.trim() === "") {
+      issues.push({ path, message: "must not be empty" });
+    }
+    options.placeholders?.forEach((placeholder) => {
+      if (!value.includes(placeholder)) {
+        issues.push({ path, message: `is missing the ${placeholder} placeholder` });
+      }
+    });
+  };
+}
+
+function number(): Validator {
+  return (value, path, issues) => {
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      issues.push({ path, message: `must be a finite number (got ${describe(value)})` });
+    }
+  };
+}
+
+function oneOf(values: readonly string[]): Validator {
+  return (value, path, issues) => {
+    if (typeof value !== "string" || !values.includes(value)) {
+      issues.push({ path, message: `must be one of ${values.join(", ")}` });
+    }
+  };
+}
+
+function array(item: Validator, options: { minLength?: number } = {}): Validator {
+  return (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push({ path, message: `must be an array (got ${describe(value)})` });
+      return;
+    }
+    if (options.minLength !== undefined && value.length < options.minLength) {
+      issues.push({ path, message: `must contain at least ${options.minLength} item(s)` });
+    }
+    value.forEach((entry, index) => item(entry, joinPath(path, index), issues));
+  };
+}
+
+function tuple(items: Validator[]): Validator {
+  return (value, path, issues) => {
+    if (!Array.isArray(value) || value.length !== items.length) {
+      issues.push({ path, message: `must be an array of ${items.length} items` });
+      return;
+    }
+    items.forEach((item, index) => item(value[index], joinPath(path, index), issues));
+  };
+}
+
+function optional(validator: Validator): Validator & { optional: true } {
+  const wrapped = (value: unknown, path: string, issues: ValidationIssue[]) => {
+    if (value === undefined || value === null) return;
+    validator(value, path, issues);
+  };
+  return Object.assign(wrapped, { optional: true as const });
+}
+
+function object(shape: Record<string, Validator>, refine?: Validator): Validator {
+  return (value, path, issues) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      issues.push({ path: path || "(root)", message: `must be an object (got ${describe(value)})` });
+      return;
+    }
+    const record = value as Record<string, unknown>;
+    Object.entries(shape).forEach(([key, validator]) => {
+      const fieldPath = joinPath(path, key);
+      if (record[key] === undefined && !("optional" in validator)) {
+        issues.push({ path: fieldPath, message: "is required" });
+        return;
+      }
+      validator(record[key], fieldPath, issues);
+    });
+    refine?.(record, path, issues);
+  };
+}
+
+// =============================================================================
+// Schemas
+// =============================================================================
+
+const modelRunSchema = object({
+  date: string({ nonEmpty: true }),
+  cycle: string({ nonEmpty: true }),
+  cycle_formatted: string({ nonEmpty: true }),
+  timestamp: string({ nonEmpty: true }),
+  unix_timestamp: number(),
+  display: optional(string()),
+});
+
+const colorStopSchema = object({
+  value: number(),
+  color: string({ nonEmpty: true }),
+});
+
+const variableSchema = object({
+  id: string({ nonEmpty: true }),
+  name: string({ nonEmpty: true }),
+  description: optional(string()),
+  units: string(),
+  color_ramp: optional(string()),
+  color_stops: optional(array(colorStopSchema)),
+  latest_timestamp: optional(string({ nonEmpty: true })),
+  timestamps: optional(array(string())),
+});
+
+const availableRunSchema = object({
+  timestamp: string({ nonEmpty: true }),
+  forecast_hours: array(string({ nonEmpty: true }), { minLength: 1 }),
+  forecast_count: optional(number()),
+});
+
+const boundsRefinement: Validator = (value, path, issues) => {
+  const [west, south, east, north] = value as number[];
+  if (west >= east || south >= north) {
+    issues.push({ path, message: "must be ordered [west, south, east, north]" });
+  }
+};
+
+const tileConfigSchema = object({
+  url_template: string({
+    nonEmpty: true,
+    placeholders: ["{variable}", "{timestamp}", "{forecast}", "{z}", "{x}", "{y}"],
+  }),
+  format: optional(string()),
+  tile_size: optional(number()),
+  min_zoom: optional(number()),
+  max_zoom: optional(number()),
+  bounds: optional((value, path, issues) => {
+    const before = issues.length;
+    tuple([number(), number(), number(), number()])(value, path, issues);
+    if (issues.length === before) boundsRefinement(value, path, issues);
+  }),
+});
+
+const modelMetadataSchema = object({
+  version: optional(string()),
+  model: string({ nonEmpty: true }),
+  product: optional(string()),
+  model_run: modelRunSchema,
+  data_freshness: object({
+    age_minutes: number(),
+    status: oneOf(["fresh", "stale", "old"]),
+    generated_at: optional(string()),
+  }),
+  variables: array(variableSchema, { minLength: 1 }),
+  variable_ids: optional(array(string())),
+  forecast_hours: array(string({ nonEmpty: true }), { minLength: 1 }),
+  available_runs: optional(array(availableRunSchema)),
+  available_runs_count: optional(number()),
+  tiles: tileConfigSchema,
+  generated_at: optional(string()),
+  pipeline_version: optional(string()),
+});
+
+const channelEncodingSchema = object(
+  {
+    min_value: number(),
+    max_value: number(),
+    offset: optional(number()),
+  },
+  (value, path, issues) => {
+    const { min_value, max_value } = value as { min_value: unknown; max_value: unknown };
+    if (typeof min_value === "number" && typeof max_value === "number" && min_value >= max_value) {
+      issues.push({ path: joinPath(path, "max_value"), message: "must be greater than min_value" });
+    }
+  }
+);
+
+const gridProjectionSchema = object(
+  {
+    type: oneOf(["lambert_conformal"]),
+    standard_parallels: tuple([number(), number()]),
+    central_meridian: number(),
+    latitude_of_origin: number(),
+    earth_radius: optional(number()),
+    origin: object({ lng: number(), lat: number() }),
+    dx: number(),
+    dy: number(),
+    uv_relative_to: optional(oneOf(["grid", "earth"])),
+  },
+  (value, path, issues) => {
+    const { dx, dy, standard_parallels } = value as { dx: unknown; dy: unknown; standard_parallels: unknown };
+    if (typeof dx === "number" && dx <= 0) {
+      issues.push({ path: joinPath(path, "dx"), message: "must be positive" });
+    }
+    if (typeof dy === "number" && dy <= 0) {
+      issues.push({ path: joinPath(path, "dy"), message: "must be positive" });
+    }
+    if (Array.isArray(standard_parallels) && standard_parallels.some((lat) => lat === 0)) {
+      issues.push({ path: joinPath(path, "standard_parallels"), message: "must not lie on the equator" });
+    }
+  }
+);
+
+const windEncodingSchema = object(
+  {
+    r_channel: optional(string()),
+    g_channel: optional(string()),
+    b_channel: optional(string()),
+    min_value: number(),
+    max_value: number(),
+    zero_value: optional(number()),
+    channels: optional(
+      object({
+        r: optional(channelEncodingSchema),
+        g: optional(channelEncodingSchema),
+        b: optional(channelEncodingSchema),
+      })
+    ),
+    nodata: optional(
+      object({
+        alpha_below: optional(number()),
+        rgb: optional(tuple([number(), number(), number()])),
+      })
+    ),
+  },
+  (value, path, issues) => {
+    const { min_value, max_value } = value as { min_value: unknown; max_value: unknown };
+    if (typeof min_value === "number" && typeof max_value === "number" && min_value >= max_value) {
+      issues.push({ path: joinPath(path, "max_value"), message: "must be greater than min_value" });
+    }
+  }
+);
+
+const windLevelSchema = object({
+  id: string({ nonEmpty: true }),
+  name: optional(string()),
+  filename_pattern: string({ nonEmpty: true, placeholders: ["{forecast}"] }),
+  encoding: optional(windEncodingSchema),
+  max_speed: optional(number()),
+});
+
+const windPyramidSchema = object(
+  {
+    url_template: string({ nonEmpty: true, placeholders: ["{forecast}", "{z}", "{x}", "{y}"] }),
+    tile_size: number(),
+    min_zoom: number(),
+    max_zoom: number(),
+    bounds: optional(object({ west: number(), east: number(), north: number(), south: number() })),
+  },
+  (value, path, issues) => {
+    const { tile_size, min_zoom, max_zoom } = value as Record<string, unknown>;
+    if (typeof tile_size === "number" && !(Number.isInteger(tile_size) && tile_size > 0)) {
+      issues.push({ path: joinPath(path, "tile_size"), message: "must be a positive integer" });
+    }
+    if (typeof min_zoom === "number" && typeof max_zoom === "number" && min_zoom > max_zoom) {
+      issues.push({ path: joinPath(path, "max_zoom"), message: "must not be below min_zoom" });
+    }
+  }
+);
+
+const windMetadataSchema = object(
+  {
+    model: string({ nonEmpty: true }),
+    model_run: object({
+      date: string({ nonEmpty: true }),
+      cycle: string({ nonEmpty: true }),
+      timestamp: string({ nonEmpty: true }),
+    }),
+    forecast_hours: array(number(), { minLength: 1 }),
+    format: optional(oneOf(["png", "binary"])),
+    tiles: object({
+      base_url: string({ nonEmpty: true }),
+      filename_pattern: string({ nonEmpty: true, placeholders: ["{forecast}"] }),
+      width: number(),
+      height: number(),
+    }),
+    encoding: optional(windEncodingSchema),
+    bounds: optional(
+      object(
+        { west: number(), east: number(), north: number(), south: number() },
+        (value, path, issues) => {
+          const { west, east, south, north } = value as Record<string, number>;
+          if (west >= east || south >= north) {
+            issues.push({ path, message: "must satisfy west < east and south < north" });
+          }
+        }
+      )
+    ),
+    projection: optional(gridProjectionSchema),
+    pyramid: optional(windPyramidSchema),
+    levels: optional(array(windLevelSchema)),
+    generated_at: optional(string()),
+  },
+  (value, path, issues) => {
+    // Binary files carry their own scaling; PNGs need the channel encoding
+    // (top-level, or on every level)
+    const { format, encoding, levels } = value as { format?: unknown; encoding?: unknown; levels?: unknown };
+    const levelsEncoded =
+      Array.isArray(levels) &&
+      levels.length > 0 &&
+      levels.every((level) => (level as { encoding?: unknown } | null)?.encoding !== undefined);
+    if ((format === undefined || format === "png") && encoding === undefined && !levelsEncoded) {
+      issues.push({ path: joinPath(path, "encoding"), message: "is required for the png format" });
+    }
+  }
+);
+
+// =============================================================================
+// Validators
+// =============================================================================
+
+function validate<T>(source: string, schema: Validator, data: unknown): T {
+  const issues: ValidationIssue[] = [];
+  schema(data, "", issues);
+  if (issues.length > 0) {
+    throw new MetadataValidationError(source, issues);
+  }
+  return data as T;
+}
+
+/**
+ * Validate a model metadata document (e.g. HRRR metadata/latest.json)
+ * @param source - Model display name used in error messages
+ */
+export function validateModelMetadata(data: unknown, source: string): ModelMetadata {
+  return validate<ModelMetadata>(source, modelMetadataSchema, data);
+}
+
+/**
+ * Validate the wind particle metadata document (latest_wind.json)
+ */
+export function validateWindMetadata(data: unknown): LatestWindMetadata {
+  return validate<LatestWindMetadata>("wind", windMetadataSchema, data);
+}
+
+/**
+ * Extract validation issues from an unknown error (empty if not a validation error)
+ */
+export function getValidationIssues(err: unknown): ValidationIssue[] {
+  return err instanceof MetadataValidationError ? err.issues : [];
+}
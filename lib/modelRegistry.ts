@@ -0,0 +1,112 @@
+/**
+ * Model Registry
+ *
+ * Static description of every forecast model the app can display. Each entry
+ * carries what differs between pipelines (metadata URL, run cadence,
+ * forecast-hour formatting and schedule, freshness policy) so hooks and panels can be
+ * written once and driven by model ID.
+ *
+ * Adding a model (NAM, RAP, GFS atmosphere...) means adding an entry here.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ForecastHourFormat {
+  digits: number; // 2 -> "07", 3 -> "007"
+}
+
+export interface ForecastStep {
+  untilHour: number; // Last forecast hour of this segment (inclusive)
+  stepHours: number; // Output interval within the segment
+}
+
+export interface FreshnessPolicy {
+  maxAgeMinutes: number; // Runs older than this (since cycle time) are considered stale
+  publishDelayMinutes: number; // Typical time from cycle time to published tiles
+  overdueGraceMinutes: number; // Slack before a missing run is reported as delayed
+}
+
+export interface ModelSectionConfig {
+  title: string; // Panel section heading, e.g. "Weather Layer"
+  layerIdPrefix: string; // Prefix for map source/layer IDs
+  preloadTiles?: boolean; // Warm the browser cache with CONUS tiles
+}
+
+export interface ModelDefinition {
+  id: string; // "hrrr"
+  displayName: string; // "HRRR"
+  metadataUrl: string;
+  cadenceHours: number; // Hours between model runs
+  forecastHourFormat: ForecastHourFormat;
+  forecastSteps: ForecastStep[]; // Output schedule, in order
+  freshness: FreshnessPolicy;
+  section?: ModelSectionConfig; // Shown in the control panel when set
+}
+
+// =============================================================================
+// Registry
+// =============================================================================
+
+export const MODEL_REGISTRY: ModelDefinition[] = [
+  {
+    id: "hrrr",
+    displayName: "HRRR",
+    metadataUrl:
+      "https://sat-data-container.s3.us-east-1.amazonaws.com/metadata/latest.json",
+    cadenceHours: 1,
+    forecastHourFormat: { digits: 2 },
+    forecastSteps: [{ untilHour: 48, stepHours: 1 }],
+    freshness: { maxAgeMinutes: 120, publishDelayMinutes: 75, overdueGraceMinutes: 30 },
+    section: {
+      title: "Weather Layer",
+      layerIdPrefix: "weather",
+      preloadTiles: true,
+    },
+  },
+  {
+    id: "gfs_wave",
+    displayName: "GFS-Wave",
+    metadataUrl:
+      "https://sat-data-container.s3.us-east-1.amazonaws.com/gfs-wave/metadata/latest.json",
+    cadenceHours: 6,
+    forecastHourFormat: { digits: 3 },
+    forecastSteps: [
+      { untilHour: 120, stepHours: 1 },
+      { untilHour: 384, stepHours: 3 }, // 3-hourly beyond F120
+    ],
+    // Updates every 6 hours, published ~5h after cycle time
+    freshness: { maxAgeMinutes: 720, publishDelayMinutes: 300, overdueGraceMinutes: 60 },
+    section: {
+      title: "Ocean Waves",
+      layerIdPrefix: "ocean",
+    },
+  },
+];
+
+// =============================================================================
+// Lookup Helpers
+// =============================================================================
+
+/**
+ * Get a model definition by ID (throws for unknown IDs)
+ */
+export function getModel(modelId: string): ModelDefinition {
+  const model = MODEL_REGISTRY.find((m) => m.id === modelId);
+  if (!model) {
+    throw new Error(`Unknown model: ${modelId}`);
+  }
+  return model;
+}
+
+/**
+ * Format a forecast hour using the model's zero padding ("7" -> "07" / "007")
+ */
+export function formatForecastHour(
+  model: ModelDefinition,
+  hour: number | string
+): string {
+  const value = typeof hour === "number" ? String(hour) : String(parseInt(hour, 10));
+  return value.padStart(model.forecastHourFormat.digits, "0");
+}
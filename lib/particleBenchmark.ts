@@ -0,0 +1,68 @@
+/**
+ * Particle Benchmark
+ *
+ * Times ParticleSimulation.step() on a loaded field at several particle
+ * counts, without any renderer, to check the simulation against a frame
+ * budget (16.7 ms at 60 fps). Runs synchronously; expect a few seconds at 100k.
+ */
+
+import { ParticleSimulation } from "@/lib/particleSimulation";
+import type { ParticleSimulationOptions } from "@/lib/particleSimulation";
+import type { WindField } from "@/lib/windField";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ParticleBenchmarkOptions extends Partial<ParticleSimulationOptions> {
+  counts?: number[]; // Particle counts to time
+  frames?: number; // Timed steps per count
+  warmupFrames?: number; // Untimed steps first, so the JIT settles
+}
+
+export interface ParticleBenchmarkResult {
+  particleCount: number;
+  msPerFrame: number; // Mean step time
+  maxMsPerFrame: number; // Slowest step
+}
+
+export const BENCHMARK_PARTICLE_COUNTS = [5_000, 25_000, 100_000];
+
+// =============================================================================
+// Benchmark
+// =============================================================================
+
+/**
+ * Step time per particle count on `field` (seeded, whole-grid view, so
+ * results are comparable between runs)
+ */
+export function benchmarkParticleSimulation(
+  field: WindField,
+  {
+    counts = BENCHMARK_PARTICLE_COUNTS,
+    frames = 60,
+    warmupFrames = 10,
+    ...options
+  }: ParticleBenchmarkOptions = {}
+): ParticleBenchmarkResult[] {
+  return counts.map((particleCount) => {
+    const simulation = new ParticleSimulation({ seed: 1, ...options, particleCount });
+    simulation.setField(field);
+
+    for (let frame = 0; frame < warmupFrames; frame++) {
+      simulation.step();
+    }
+
+    let total = 0;
+    let slowest = 0;
+    for (let frame = 0; frame < frames; frame++) {
+      const start = performance.now();
+      simulation.step();
+      const elapsed = performance.now() - start;
+      total += elapsed;
+      slowest = Math.max(slowest, elapsed);
+    }
+
+    return { particleCount, msPerFrame: total / frames, maxMsPerFrame: slowest };
+  });
+}
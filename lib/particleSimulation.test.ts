@@ -0,0 +1,154 @@
+import { describe, expect, it } from "vitest";
+import { ParticleSimulation, createSeededRandom } from "@/lib/particleSimulation";
+import type { ParticleSimulationOptions } from "@/lib/particleSimulation";
+import { buildWindField, lngLatToGrid } from "@/lib/windField";
+import type { WindField } from "@/lib/windField";
+import type { WindSample } from "@/lib/windEncoding";
+
+const WIDTH = 60;
+const HEIGHT = 40;
+const BOUNDS = { west: -120, east: -60, south: 20, north: 50 };
+
+// Uniform wind over the test grid; `read` returning null masks a cell
+function uniformField(
+  u: number,
+  v: number,
+  read: (x: number, y: number) => boolean = () => true
+): WindField {
+  const sample: WindSample = { u, v, magnitude: Math.hypot(u, v) };
+  return buildWindField(WIDTH, HEIGHT, BOUNDS, null, (i) =>
+    read(i % WIDTH, Math.floor(i / WIDTH)) ? sample : null
+  );
+}
+
+function createSimulation(
+  field: WindField,
+  options: Partial<ParticleSimulationOptions> = {}
+): ParticleSimulation {
+  const simulation = new ParticleSimulation({
+    particleCount: 500,
+    adaptiveCount: false,
+    seed: 1,
+    ...options,
+  });
+  simulation.setField(field);
+  simulation.setView({ bounds: null, zoom: 3 });
+  return simulation;
+}
+
+function snapshot(simulation: ParticleSimulation) {
+  return {
+    count: simulation.count,
+    lng: Array.from(simulation.lng),
+    lat: Array.from(simulation.lat),
+    age: Array.from(simulation.age),
+    trail: Array.from(simulation.trail),
+  };
+}
+
+describe("createSeededRandom", () => {
+  it("repeats the sequence for a seed", () => {
+    const a = createSeededRandom(42);
+    const b = createSeededRandom(42);
+    const c = createSeededRandom(43);
+    const sequence = Array.from({ length: 5 }, () => a());
+
+    expect(Array.from({ length: 5 }, () => b())).toEqual(sequence);
+    expect(Array.from({ length: 5 }, () => c())).not.toEqual(sequence);
+    sequence.forEach((value) => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+});
+
+describe("ParticleSimulation", () => {
+  it("gives identical particle state for the same seed", () => {
+    const field = uniformField(5, 2);
+    const a = createSimulation(field, { seed: 7 });
+    const b = createSimulation(field, { seed: 7 });
+
+    expect(snapshot(b)).toEqual(snapshot(a));
+    for (let frame = 0; frame < 120; frame++) {
+      a.step();
+      b.step();
+    }
+    expect(snapshot(b)).toEqual(snapshot(a));
+    expect(snapshot(createSimulation(field, { seed: 8 }))).not.toEqual(snapshot(a));
+  });
+
+  it("moves particles with the wind and extends their trails", () => {
+    const simulation = createSimulation(uniformField(10, 0), { maxAge: 1000 });
+    const lng = Float64Array.from(simulation.lng);
+    const lat = Float64Array.from(simulation.lat);
+    simulation.step();
+
+    for (let i = 0; i < simulation.count; i++) {
+      if (simulation.age[i] === 0) continue; // Left the grid and respawned
+      expect(simulation.lng[i]).toBeGreaterThan(lng[i]);
+      expect(simulation.lat[i]).toBeCloseTo(lat[i], 6);
+      expect(simulation.trailCount[i]).toBe(2);
+    }
+  });
+
+  it("respawns particles past their maximum age", () => {
+    const simulation = createSimulation(uniformField(0.1, 0), { maxAge: 20 });
+    for (let frame = 0; frame < 40; frame++) {
+      simulation.step();
+      for (let i = 0; i < simulation.count; i++) {
+        expect(simulation.age[i]).toBeLessThanOrEqual(simulation.maxAge[i] + 1);
+      }
+    }
+  });
+
+  it("respawns particles that leave the grid back inside it", () => {
+    const simulation = createSimulation(uniformField(40, 0), { maxAge: 1000, speedFactor: 2 });
+    for (let frame = 0; frame < 60; frame++) {
+      simulation.step();
+    }
+
+    for (let i = 0; i < simulation.count; i++) {
+      expect(simulation.lng[i]).toBeGreaterThanOrEqual(BOUNDS.west);
+      expect(simulation.lng[i]).toBeLessThanOrEqual(BOUNDS.east);
+    }
+    expect(Array.from(simulation.age).some((age) => age < 60)).toBe(true);
+  });
+
+  it("respawns particles stranded in masked cells instead of freezing them", () => {
+    const inHole = (x: number, y: number) => x >= 25 && x < 35 && y >= 10 && y < 30;
+    const field = uniformField(5, 0, (x, y) => !inHole(x, y));
+    const simulation = createSimulation(field, { maxAge: 1000 });
+
+    let stranded = 0;
+    for (let frame = 0; frame < 100; frame++) {
+      const lng = Float64Array.from(simulation.lng);
+      const age = Float32Array.from(simulation.age);
+      simulation.step();
+
+      for (let i = 0; i < simulation.count; i++) {
+        const { x, y } = lngLatToGrid(field, lng[i], simulation.lat[i]);
+        if (inHole(Math.floor(x), Math.floor(y))) stranded++;
+        // Every particle either moved or respawned (age back to 0)
+        expect(simulation.lng[i] !== lng[i] || simulation.age[i] < age[i]).toBe(true);
+      }
+    }
+    expect(stranded).toBeGreaterThan(0);
+  });
+
+  it("spawns only where the density mask allows", () => {
+    const simulation = createSimulation(uniformField(5, 0), {
+      spawn: "mask",
+      densityMask: (lng) => (lng > -80 ? 1 : 0),
+      maxAge: 10,
+    });
+
+    for (let frame = 0; frame < 30; frame++) {
+      simulation.step();
+      for (let i = 0; i < simulation.count; i++) {
+        if (simulation.trailCount[i] === 1) {
+          expect(simulation.lng[i]).toBeGreaterThan(-80);
+        }
+      }
+    }
+  });
+});
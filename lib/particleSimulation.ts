@@ -0,0 +1,567 @@
+/**
+ * Particle Simulation
+ *
+ * Renderer-independent wind particle engine shared by the deck.gl layer and
+ * the React Native Skia overlay: spawning within the view, advection through
+ * a (time-blended) WindField, aging, respawning and trail bookkeeping. State
+ * lives in preallocated typed arrays (trails in per-particle ring buffers)
+ * that the renderers read directly after each step(); stepping allocates
+ * nothing.
+ *
+ * New particles are placed by a spawn strategy (uniform on screen or by
+ * area, or weighted by speed or a density mask), only where there is data,
+ * and the live count follows how much of the view has data.
+ *
+ * Particles move in meters over a sphere (a degree of longitude shrinks with
+ * cos(lat)), integrated with Euler, midpoint or classic RK4, so their speed
+ * is proportional to the wind everywhere on the grid.
+ *
+ * Pass a `seed` for reproducible runs (same seed, field and calls give the
+ * same particles); without one it uses Math.random.
+ */
+
+import { gridToLngLat, lngLatToGrid, sampleWindFieldBlend } from "@/lib/windField";
+import type { SamplingMode, WindField, WindFieldBounds } from "@/lib/windField";
+import type { WindSample } from "@/lib/windEncoding";
+import type { GridPoint } from "@/lib/projection";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type Integrator = "euler" | "midpoint" | "rk4";
+
+/**
+ * Where new particles appear: uniform on the (Web Mercator) screen, uniform
+ * by area on the globe, or screen-uniform thinned by wind speed or by
+ * `densityMask`
+ */
+export type SpawnStrategy = "screen" | "area" | "speed" | "mask";
+
+/** Relative spawn density (0-1) at a longitude/latitude */
+export type DensityMask = (lng: number, lat: number) => number;
+
+export interface ParticleSimulationOptions {
+  particleCount: number; // At zoom < 4; fewer as the map zooms in
+  trailLength: number; // Trail points at zoom < 4; shorter as the map zooms in
+  maxAge: number; // Steps before a particle respawns (+-15 jitter)
+  speedFactor: number; // Grid cells (at the grid center) per step per m/s at zoom < 4
+  speedScale: number; // Extra multiplier (e.g. slower for jet-stream levels)
+  sampling: SamplingMode;
+  integrator: Integrator;
+  spawn: SpawnStrategy;
+  densityMask: DensityMask | null; // For the "mask" strategy
+  adaptiveCount: boolean; // Scale the count by the share of the zoomed-in view that has data
+  seed: number | null; // Null = Math.random
+}
+
+export interface SimulationView {
+  bounds: WindFieldBounds | null; // Visible area; particles spawn inside it when zoomed in
+  zoom: number;
+}
+
+export const DEFAULT_SIMULATION_OPTIONS: ParticleSimulationOptions = {
+  particleCount: 4000,
+  trailLength: 15,
+  maxAge: 80,
+  speedFactor: 0.08,
+  speedScale: 1,
+  sampling: "bilinear",
+  integrator: "rk4",
+  spawn: "screen",
+  densityMask: null,
+  adaptiveCount: true,
+  seed: null,
+};
+
+const EARTH_RADIUS = 6371229; // Meters (the GRIB sphere, as in projection.ts)
+const DEG = Math.PI / 180;
+
+// Keeps longitude steps finite next to the poles
+const MIN_COS_LAT = 0.01;
+
+// Web Mercator's latitude limit
+const MAX_MERCATOR_LAT = 85.0511;
+
+// Candidates tried per spawn before settling for the last usable one
+const MAX_SPAWN_ATTEMPTS = 10;
+
+// Points per side of the lattice that measures how much of the view has data
+const COVERAGE_LATTICE = 16;
+
+// =============================================================================
+// Random
+// =============================================================================
+
+/**
+ * Deterministic uniform [0, 1) generator (mulberry32)
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// =============================================================================
+// Zoom Scaling
+// =============================================================================
+
+/** Fewer particles as the map zooms in (each covers less ground) */
+export function particleCountForZoom(base: number, zoom: number): number {
+  if (zoom < 4) return base;
+  if (zoom < 6) return Math.floor(base * 0.5);
+  if (zoom < 8) return Math.floor(base * 0.2);
+  if (zoom < 10) return Math.floor(base * 0.08);
+  if (zoom < 12) return Math.floor(base * 0.04);
+  return Math.floor(base * 0.025);
+}
+
+/** Slower grid motion as the map zooms in, so on-screen speed stays readable */
+export function speedFactorForZoom(base: number, zoom: number): number {
+  if (zoom < 4) return base;
+  if (zoom < 6) return base * 0.7;
+  if (zoom < 8) return base * 0.4;
+  if (zoom < 10) return base * 0.15;
+  if (zoom < 12) return base * 0.06;
+  return base * 0.02;
+}
+
+/** Shorter trails as the map zooms in */
+export function trailLengthForZoom(base: number, zoom: number): number {
+  if (zoom < 4) return base;
+  if (zoom < 6) return Math.floor(base * 0.8);
+  if (zoom < 8) return Math.floor(base * 0.6);
+  if (zoom < 10) return Math.floor(base * 0.4);
+  if (zoom < 12) return Math.floor(base * 0.25);
+  return Math.max(3, Math.floor(base * 0.15));
+}
+
+// =============================================================================
+// Motion
+// =============================================================================
+
+/**
+ * North-south size of a cell at the grid center in meters; turns the
+ * cells-per-step speed factor into a time step
+ */
+function cellSizeMeters(field: WindField): number {
+  const x = field.width / 2;
+  const y = field.height / 2;
+  const a = gridToLngLat(field, x, y);
+  const b = gridToLngLat(field, x, y + 1);
+  return Math.abs(a.lat - b.lat) * DEG * EARTH_RADIUS;
+}
+
+const mercatorY = (lat: number) =>
+  Math.log(Math.tan(Math.PI / 4 + (Math.max(-MAX_MERCATOR_LAT, Math.min(MAX_MERCATOR_LAT, lat)) * DEG) / 2));
+
+const mercatorLat = (y: number) => (2 * Math.atan(Math.exp(y)) - Math.PI / 2) / DEG;
+
+/** Whether a grid position lies on a cell with data */
+const hasData = (field: WindField, x: number, y: number) =>
+  x >= 0 && x < field.width && y >= 0 && y < field.height &&
+  field.mask[Math.floor(y) * field.width + Math.floor(x)] === 1;
+
+/** Fastest speed in a field, for weighting spawns by speed */
+function maxFieldSpeed(field: WindField): number {
+  let max = 0;
+  for (let i = 0; i < field.speed.length; i++) {
+    if (field.mask[i] && field.speed[i] > max) max = field.speed[i];
+  }
+  return max;
+}
+
+// =============================================================================
+// Simulation
+// =============================================================================
+
+const sameGrid = (a: WindField, b: WindField) =>
+  a.width === b.width &&
+  a.height === b.height &&
+  a.projection?.type === b.projection?.type &&
+  a.bounds.west === b.bounds.west &&
+  a.bounds.east === b.bounds.east &&
+  a.bounds.south === b.bounds.south &&
+  a.bounds.north === b.bounds.north;
+
+export class ParticleSimulation {
+  private options: ParticleSimulationOptions;
+  private random: () => number;
+  private field: WindField | null = null;
+  private next: WindField | null = null;
+  private cellMeters = 1;
+  private maxSpeed = 0;
+  // Scratch for step(): integrator stages k1..k4 as (lng, lat) degrees per second
+  private k = new Float64Array(8);
+  private sample: WindSample = { u: 0, v: 0, magnitude: 0 };
+  private point: GridPoint = { x: 0, y: 0 };
+  private spawnArea: WindFieldBounds = { west: 0, east: 0, south: 0, north: 0 };
+  private candidate = { lng: 0, lat: 0 };
+  private timeFraction = 0;
+  private view: SimulationView = { bounds: null, zoom: 0 };
+
+  // Outputs, indexed by particle. Reallocated by reset(); re-read them after it.
+  /** Live particles (the first `count` entries; the arrays may be longer) */
+  count = 0;
+  /** Head position (double precision, so slow zoomed-in steps don't round away) */
+  lng = new Float64Array(0);
+  lat = new Float64Array(0);
+  /** Fractional grid position of the head */
+  x = new Float32Array(0);
+  y = new Float32Array(0);
+  /** Steps since spawn, and the step count at which the particle respawns */
+  age = new Float32Array(0);
+  maxAge = new Float32Array(0);
+  /** Wind and gust speed (m/s) at the head after the last step */
+  speed = new Float32Array(0);
+  gust = new Float32Array(0);
+  /**
+   * Trail lng/lat pairs: one ring of trailCapacity points per particle,
+   * newest at trailHead[i]; read them in order with trailIndex()
+   */
+  trail = new Float32Array(0);
+  trailHead = new Uint16Array(0);
+  /** Points in each trail; 0 marks an empty slot that spawns again next step */
+  trailCount = new Uint16Array(0);
+  trailCapacity = 0;
+
+  constructor(options: Partial<ParticleSimulationOptions> = {}) {
+    this.options = { ...DEFAULT_SIMULATION_OPTIONS, ...options };
+    this.random = this.createRandom();
+  }
+
+  private createRandom(): () => number {
+    return this.options.seed === null ? Math.random : createSeededRandom(this.options.seed);
+  }
+
+  /**
+   * Update options. Changing the particle count, trail length, adaptive count
+   * or seed respawns everything.
+   */
+  setOptions(options: Partial<ParticleSimulationOptions>): void {
+    const previous = this.options;
+    this.options = { ...previous, ...options };
+
+    if (this.options.seed !== previous.seed) {
+      this.random = this.createRandom();
+    }
+    if (
+      this.options.particleCount !== previous.particleCount ||
+      this.options.trailLength !== previous.trailLength ||
+      this.options.adaptiveCount !== previous.adaptiveCount ||
+      this.options.seed !== previous.seed
+    ) {
+      this.reset();
+    }
+  }
+
+  /**
+   * Wind to advect through: `field` blended toward `next` by `timeFraction`.
+   * Particles carry over when the grid is unchanged (e.g. a new forecast hour).
+   */
+  setField(field: WindField | null, next: WindField | null = null, timeFraction = 0): void {
+    const previous = this.field;
+    this.field = field;
+    this.next = next;
+    this.timeFraction = timeFraction;
+
+    if (!field) {
+      this.count = 0;
+      return;
+    }
+    if (field !== previous) {
+      this.cellMeters = cellSizeMeters(field);
+      this.maxSpeed = maxFieldSpeed(field);
+    }
+    if (!previous || !sameGrid(previous, field) || this.count === 0) {
+      this.reset();
+    }
+  }
+
+  setTimeFraction(timeFraction: number): void {
+    this.timeFraction = timeFraction;
+  }
+
+  /**
+   * Current map view; takes effect for new spawns (call reset() to respawn
+   * all). With adaptiveCount, particles are added or dropped so the density
+   * on screen stays the same as the view moves on or off the data.
+   */
+  setView(view: SimulationView): void {
+    this.view = view;
+    if (!this.field || !this.options.adaptiveCount) return;
+
+    const count = this.targetCount(this.x.length);
+    for (let i = this.count; i < count; i++) {
+      this.spawn(i, true);
+    }
+    this.count = count;
+  }
+
+  /**
+   * Share of the view with data, on a screen-space lattice (1 when zoomed out
+   * far enough to spawn over the whole field)
+   */
+  private viewCoverage(field: WindField): number {
+    const view = this.view.bounds;
+    if (!view || this.view.zoom <= 4) return 1;
+
+    const top = mercatorY(view.north);
+    const bottom = mercatorY(view.south);
+    let covered = 0;
+    for (let row = 0; row < COVERAGE_LATTICE; row++) {
+      const lat = mercatorLat(top + ((row + 0.5) / COVERAGE_LATTICE) * (bottom - top));
+      for (let column = 0; column < COVERAGE_LATTICE; column++) {
+        const lng = view.west + ((column + 0.5) / COVERAGE_LATTICE) * (view.east - view.west);
+        const { x, y } = lngLatToGrid(field, lng, lat, this.point);
+        if (hasData(field, x, y)) covered++;
+      }
+    }
+    return covered / (COVERAGE_LATTICE * COVERAGE_LATTICE);
+  }
+
+  /** Live particles for the view, at most `capacity` */
+  private targetCount(capacity: number): number {
+    if (!this.field || !this.options.adaptiveCount) return capacity;
+    return Math.min(capacity, Math.ceil(capacity * this.viewCoverage(this.field)));
+  }
+
+  /**
+   * Respawn every particle for the current field, view and options
+   */
+  reset(): void {
+    const { particleCount, trailLength } = this.options;
+    const count = this.field ? particleCountForZoom(particleCount, this.view.zoom) : 0;
+
+    this.count = this.targetCount(count);
+    this.trailCapacity = Math.max(2, trailLength);
+    this.lng = new Float64Array(count);
+    this.lat = new Float64Array(count);
+    this.x = new Float32Array(count);
+    this.y = new Float32Array(count);
+    this.age = new Float32Array(count);
+    this.maxAge = new Float32Array(count);
+    this.speed = new Float32Array(count);
+    this.gust = new Float32Array(count);
+    this.trail = new Float32Array(count * this.trailCapacity * 2);
+    this.trailHead = new Uint16Array(count);
+    this.trailCount = new Uint16Array(count);
+
+    for (let i = 0; i < this.count; i++) {
+      this.spawn(i, true);
+    }
+  }
+
+  /** Where new particles appear: the data, narrowed to the view when zoomed in */
+  private spawnBounds(field: WindField): WindFieldBounds {
+    const { bounds } = field;
+    const view = this.view.bounds;
+    if (!view || this.view.zoom <= 4) return bounds;
+
+    const area = this.spawnArea;
+    area.west = Math.max(bounds.west, view.west);
+    area.east = Math.min(bounds.east, view.east);
+    area.south = Math.max(bounds.south, view.south);
+    area.north = Math.min(bounds.north, view.north);
+    return area.west < area.east && area.south < area.north ? area : bounds;
+  }
+
+  /** Random point in `bounds` for the spawn strategy, into this.candidate */
+  private randomLngLat(bounds: WindFieldBounds): { lng: number; lat: number } {
+    const candidate = this.candidate;
+    candidate.lng = bounds.west + this.random() * (bounds.east - bounds.west);
+
+    if (this.options.spawn === "area") {
+      // Uniform in sin(lat) is uniform in area on the sphere
+      const south = Math.sin(bounds.south * DEG);
+      const north = Math.sin(bounds.north * DEG);
+      candidate.lat = Math.asin(south + this.random() * (north - south)) / DEG;
+    } else {
+      const top = mercatorY(bounds.north);
+      const bottom = mercatorY(bounds.south);
+      candidate.lat = mercatorLat(bottom + this.random() * (top - bottom));
+    }
+    return candidate;
+  }
+
+  /** Chance of keeping a candidate with data, for the weighted strategies */
+  private spawnWeight(field: WindField, lng: number, lat: number, x: number, y: number): number {
+    const { spawn, densityMask } = this.options;
+    if (spawn === "speed") {
+      if (this.maxSpeed <= 0) return 1;
+      return field.speed[Math.floor(y) * field.width + Math.floor(x)] / this.maxSpeed;
+    }
+    if (spawn === "mask" && densityMask) {
+      return Math.min(1, Math.max(0, densityMask(lng, lat)));
+    }
+    return 1;
+  }
+
+  private spawn(i: number, randomAge: boolean): void {
+    const field = this.field!;
+    const { maxAge } = this.options;
+    const bounds = this.spawnBounds(field);
+
+    // Rejection sampling: skip no-data and zero-weight cells, thin by weight. If
+    // every try is thinned out, keep the last usable one; with none, leave the slot empty
+    let usable = false;
+    let lng = 0;
+    let lat = 0;
+    for (let attempt = 0; attempt < MAX_SPAWN_ATTEMPTS; attempt++) {
+      const candidate = this.randomLngLat(bounds);
+      const { x, y } = lngLatToGrid(field, candidate.lng, candidate.lat, this.point);
+      if (!hasData(field, x, y)) continue;
+      const weight = this.spawnWeight(field, candidate.lng, candidate.lat, x, y);
+      if (weight <= 0) continue;
+
+      usable = true;
+      lng = candidate.lng;
+      lat = candidate.lat;
+      if (this.random() < weight) break;
+    }
+    if (!usable) {
+      this.trailCount[i] = 0;
+      return;
+    }
+    const { x, y } = lngLatToGrid(field, lng, lat, this.point);
+
+    this.lng[i] = lng;
+    this.lat[i] = lat;
+    this.x[i] = x;
+    this.y[i] = y;
+    this.age[i] = randomAge ? Math.floor(this.random() * maxAge) : 0;
+    this.maxAge[i] = maxAge + Math.floor(this.random() * 30) - 15;
+    this.speed[i] = 0;
+    this.gust[i] = 0;
+
+    const base = i * this.trailCapacity * 2;
+    this.trail[base] = lng;
+    this.trail[base + 1] = lat;
+    this.trailHead[i] = 0;
+    this.trailCount[i] = 1;
+  }
+
+  /**
+   * Offset in `trail` of particle i's `age`-th newest point (0 = head); lng at it, lat after
+   */
+  trailIndex(i: number, age: number): number {
+    const capacity = this.trailCapacity;
+    const slot = (this.trailHead[i] - age + capacity) % capacity;
+    return (i * capacity + slot) * 2;
+  }
+
+  /**
+   * Wind at a longitude/latitude into k[slot], k[slot + 1] as degrees per
+   * second; false off the grid or masked
+   */
+  private velocityAt(lng: number, lat: number, slot: number): boolean {
+    const field = this.field!;
+    const { x, y } = lngLatToGrid(field, lng, lat, this.point);
+    const sample = sampleWindFieldBlend(
+      field,
+      this.next,
+      this.timeFraction,
+      x,
+      y,
+      this.options.sampling,
+      this.sample
+    );
+    if (!sample) return false;
+
+    const cosLat = Math.max(MIN_COS_LAT, Math.cos(lat * DEG));
+    this.k[slot] = sample.u / (EARTH_RADIUS * cosLat) / DEG;
+    this.k[slot + 1] = sample.v / EARTH_RADIUS / DEG;
+    return true;
+  }
+
+  /**
+   * Move particle i along `h` seconds of wind; false when it sits outside the
+   * data. Later stages that leave the data fall back to the estimate so far,
+   * so particles still reach the edge and respawn.
+   */
+  private advance(i: number, h: number): boolean {
+    const { k } = this;
+    const { integrator } = this.options;
+    const lng = this.lng[i];
+    const lat = this.lat[i];
+
+    if (!this.velocityAt(lng, lat, 0)) return false;
+    this.speed[i] = this.sample.magnitude;
+    this.gust[i] = this.sample.gust ?? this.sample.magnitude;
+
+    let dLng = k[0];
+    let dLat = k[1];
+    if (integrator !== "euler" && this.velocityAt(lng + (k[0] * h) / 2, lat + (k[1] * h) / 2, 2)) {
+      dLng = k[2];
+      dLat = k[3];
+      if (
+        integrator === "rk4" &&
+        this.velocityAt(lng + (k[2] * h) / 2, lat + (k[3] * h) / 2, 4) &&
+        this.velocityAt(lng + k[4] * h, lat + k[5] * h, 6)
+      ) {
+        dLng = (k[0] + 2 * k[2] + 2 * k[4] + k[6]) / 6;
+        dLat = (k[1] + 2 * k[3] + 2 * k[5] + k[7]) / 6;
+      }
+    }
+
+    this.lng[i] = lng + dLng * h;
+    this.lat[i] = lat + dLat * h;
+    return true;
+  }
+
+  /**
+   * Advance every particle by `dt` steps (1 = one frame at the reference rate)
+   */
+  step(dt = 1): void {
+    const field = this.field;
+    if (!field || this.count === 0) return;
+
+    const { trailCapacity, trail } = this;
+    const { speedFactor, speedScale, trailLength } = this.options;
+    const zoom = this.view.zoom;
+    // Simulated seconds per step: the speed factor in cells, expressed in meters of travel per m/s
+    const h = speedFactorForZoom(speedFactor, zoom) * speedScale * this.cellMeters * dt;
+    const trailLimit = Math.min(trailCapacity, trailLengthForZoom(trailLength, zoom));
+
+    for (let i = 0; i < this.count; i++) {
+      // Empty slot (no usable spawn point last time): try again
+      if (this.trailCount[i] === 0) {
+        this.spawn(i, false);
+        continue;
+      }
+
+      // No wind where it sits (e.g. a masked cell inside the grid): respawn rather than freeze
+      if (!this.advance(i, h)) {
+        this.spawn(i, false);
+        continue;
+      }
+
+      const { x, y } = lngLatToGrid(field, this.lng[i], this.lat[i], this.point);
+      this.x[i] = x;
+      this.y[i] = y;
+
+      // Overwrite the oldest ring slot with the new head
+      const head = (this.trailHead[i] + 1) % trailCapacity;
+      const offset = (i * trailCapacity + head) * 2;
+      trail[offset] = this.lng[i];
+      trail[offset + 1] = this.lat[i];
+      this.trailHead[i] = head;
+      this.trailCount[i] = Math.min(this.trailCount[i] + 1, trailLimit);
+
+      this.age[i] += dt;
+
+      if (
+        this.age[i] > this.maxAge[i] ||
+        this.x[i] < 0 || this.x[i] >= field.width ||
+        this.y[i] < 0 || this.y[i] >= field.height
+      ) {
+        this.spawn(i, false);
+      }
+    }
+  }
+}
@@ -0,0 +1,281 @@
+/**
+ * Grid Projection
+ *
+ * Projected wind grids: Lambert Conformal Conic as used by the native HRRR
+ * grid, and Web Mercator for mosaics of z/x/y wind tiles. Converts between
+ * fractional grid positions and longitude/latitude, and rotates
+ * grid-relative U/V (as the model writes them) to earth-relative and back.
+ * Spherical earth, per the GRIB grid definitions the pipeline reads.
+ *
+ * Kept free of app imports so the React Native components can share it.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** `projection` block of latest_wind.json */
+export interface GridProjectionBlock {
+  type: "lambert_conformal";
+  standard_parallels: [number, number]; // Degrees (equal for a tangent cone)
+  central_meridian: number; // Degrees (GRIB LoV)
+  latitude_of_origin: number; // Degrees
+  earth_radius?: number; // Meters (default 6371229, the GRIB sphere)
+  origin: { lng: number; lat: number }; // Center of the top-left (north-west) pixel
+  dx: number; // Meters between pixel centers
+  dy: number;
+  uv_relative_to?: "grid" | "earth"; // Default "grid" (native model output)
+}
+
+export interface LambertConformalProjection {
+  type: "lambert_conformal";
+  standardParallels: [number, number];
+  centralMeridian: number;
+  latitudeOfOrigin: number;
+  earthRadius: number;
+  origin: { lng: number; lat: number };
+  dx: number;
+  dy: number;
+  /** U/V in the PNG follow the grid axes and need rotating to east/north */
+  gridRelativeWind: boolean;
+}
+
+/** Block of Web Mercator tile pixels at one zoom level (north is always up) */
+export interface WebMercatorProjection {
+  type: "web_mercator";
+  zoom: number;
+  tileSize: number;
+  originX: number; // Global pixel of the grid's left edge at `zoom`
+  originY: number; // Global pixel of the grid's top edge
+  gridRelativeWind: false;
+}
+
+export type GridProjection = LambertConformalProjection | WebMercatorProjection;
+
+/** Grid position, reusable as an output argument */
+export interface GridPoint {
+  x: number;
+  y: number;
+}
+
+interface Projector {
+  /** Fractional grid position of a longitude/latitude, written to `out` */
+  toGrid: (lng: number, lat: number, out: GridPoint) => GridPoint;
+  /** Longitude/latitude of a fractional grid position */
+  fromGrid: (x: number, y: number) => { lng: number; lat: number };
+  /** Angle (radians) from grid north to true north at a longitude */
+  rotation: (lng: number) => number;
+}
+
+const DEG = Math.PI / 180;
+const GRIB_EARTH_RADIUS = 6371229;
+
+// =============================================================================
+// Metadata
+// =============================================================================
+
+/**
+ * Projection from a metadata block (null for plain lat/lng grids)
+ */
+export function gridProjectionFromMetadata(
+  block: GridProjectionBlock | null | undefined
+): LambertConformalProjection | null {
+  if (!block) return null;
+  return {
+    type: block.type,
+    standardParallels: block.standard_parallels,
+    centralMeridian: block.central_meridian,
+    latitudeOfOrigin: block.latitude_of_origin,
+    earthRadius: block.earth_radius ?? GRIB_EARTH_RADIUS,
+    origin: block.origin,
+    dx: block.dx,
+    dy: block.dy,
+    gridRelativeWind: (block.uv_relative_to ?? "grid") === "grid",
+  };
+}
+
+// =============================================================================
+// Lambert Conformal Conic
+// =============================================================================
+
+/** Longitude difference wrapped to [-180, 180) */
+const wrapLng = (lng: number) => ((((lng + 180) % 360) + 360) % 360) - 180;
+
+function createLambertConformal(projection: LambertConformalProjection): Projector {
+  const [lat1, lat2] = projection.standardParallels.map((lat) => lat * DEG);
+  const lat0 = projection.latitudeOfOrigin * DEG;
+  const lng0 = projection.centralMeridian;
+  const radius = projection.earthRadius;
+
+  const t = (lat: number) => Math.tan(Math.PI / 4 + lat / 2);
+  // Cone constant (sin of the standard parallel for a tangent cone)
+  const n =
+    Math.abs(lat1 - lat2) < 1e-10
+      ? Math.sin(lat1)
+      : Math.log(Math.cos(lat1) / Math.cos(lat2)) / Math.log(t(lat2) / t(lat1));
+  const f = (Math.cos(lat1) * Math.pow(t(lat1), n)) / n;
+  const rho0 = (radius * f) / Math.pow(t(lat0), n);
+
+  const forward = (lng: number, lat: number, out: GridPoint) => {
+    const rho = (radius * f) / Math.pow(t(lat * DEG), n);
+    const theta = n * wrapLng(lng - lng0) * DEG;
+    out.x = rho * Math.sin(theta);
+    out.y = rho0 - rho * Math.cos(theta);
+    return out;
+  };
+
+  const inverse = (x: number, y: number) => {
+    const sign = n < 0 ? -1 : 1;
+    const rho = sign * Math.sqrt(x * x + (rho0 - y) * (rho0 - y));
+    const theta = Math.atan2(sign * x, sign * (rho0 - y));
+    const lat = 2 * Math.atan(Math.pow((radius * f) / rho, 1 / n)) - Math.PI / 2;
+    return { lng: wrapLng(theta / n / DEG + lng0), lat: lat / DEG };
+  };
+
+  // Origin is the center of the top-left pixel; pixel centers sit at i + 0.5
+  const origin = forward(projection.origin.lng, projection.origin.lat, { x: 0, y: 0 });
+  const { dx, dy } = projection;
+
+  return {
+    toGrid: (lng, lat, out) => {
+      const { x, y } = forward(lng, lat, out);
+      out.x = (x - origin.x) / dx + 0.5;
+      out.y = (origin.y - y) / dy + 0.5;
+      return out;
+    },
+    fromGrid: (x, y) => inverse(origin.x + (x - 0.5) * dx, origin.y - (y - 0.5) * dy),
+    rotation: (lng) => n * wrapLng(lng - lng0) * DEG,
+  };
+}
+
+// =============================================================================
+// Web Mercator
+// =============================================================================
+
+function createWebMercator(projection: WebMercatorProjection): Projector {
+  const worldSize = projection.tileSize * Math.pow(2, projection.zoom);
+  const { originX, originY } = projection;
+
+  return {
+    toGrid: (lng, lat, out) => {
+      const sin = Math.sin(Math.max(-85.0511, Math.min(85.0511, lat)) * DEG);
+      const y = 0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI);
+      out.x = ((lng + 180) / 360) * worldSize - originX;
+      out.y = y * worldSize - originY;
+      return out;
+    },
+    fromGrid: (x, y) => {
+      const n = Math.PI - (2 * Math.PI * (y + originY)) / worldSize;
+      return {
+        lng: ((x + originX) / worldSize) * 360 - 180,
+        lat: Math.atan(Math.sinh(n)) / DEG,
+      };
+    },
+    rotation: () => 0,
+  };
+}
+
+// Projection objects are reused for every sample; build their constants once
+const projectors = new WeakMap<GridProjection, Projector>();
+
+function getProjector(projection: GridProjection): Projector {
+  let projector = projectors.get(projection);
+  if (!projector) {
+    projector =
+      projection.type === "web_mercator"
+        ? createWebMercator(projection)
+        : createLambertConformal(projection);
+    projectors.set(projection, projector);
+  }
+  return projector;
+}
+
+// =============================================================================
+// Grid Conversion
+// =============================================================================
+
+/**
+ * Longitude/latitude of a fractional grid position
+ */
+export function projectedGridToLngLat(
+  projection: GridProjection,
+  x: number,
+  y: number
+): { lng: number; lat: number } {
+  return getProjector(projection).fromGrid(x, y);
+}
+
+/**
+ * Fractional grid position of a longitude/latitude (may fall outside the grid).
+ * Pass `out` to reuse an object in hot loops.
+ */
+export function lngLatToProjectedGrid(
+  projection: GridProjection,
+  lng: number,
+  lat: number,
+  out: GridPoint = { x: 0, y: 0 }
+): GridPoint {
+  return getProjector(projection).toGrid(lng, lat, out);
+}
+
+/**
+ * Longitude/latitude box enclosing a projected grid (traced along its edges,
+ * since the edges of a conic grid are curves in lat/lng)
+ */
+export function projectedGridBounds(
+  projection: GridProjection,
+  width: number,
+  height: number
+): { west: number; east: number; south: number; north: number } {
+  const bounds = { west: Infinity, east: -Infinity, south: Infinity, north: -Infinity };
+  const extend = (x: number, y: number) => {
+    const { lng, lat } = projectedGridToLngLat(projection, x, y);
+    bounds.west = Math.min(bounds.west, lng);
+    bounds.east = Math.max(bounds.east, lng);
+    bounds.south = Math.min(bounds.south, lat);
+    bounds.north = Math.max(bounds.north, lat);
+  };
+
+  const steps = 32;
+  for (let i = 0; i <= steps; i++) {
+    extend((i / steps) * width, 0);
+    extend((i / steps) * width, height);
+    extend(0, (i / steps) * height);
+    extend(width, (i / steps) * height);
+  }
+  return bounds;
+}
+
+// =============================================================================
+// Wind Rotation
+// =============================================================================
+
+/**
+ * Rotate grid-relative U/V to earth-relative (eastward/northward) at a longitude
+ */
+export function rotateToEarth(
+  projection: GridProjection,
+  lng: number,
+  u: number,
+  v: number
+): { u: number; v: number } {
+  const angle = getProjector(projection).rotation(lng);
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return { u: cos * u + sin * v, v: -sin * u + cos * v };
+}
+
+/**
+ * Rotate earth-relative U/V onto the grid axes at a longitude
+ */
+export function rotateToGrid(
+  projection: GridProjection,
+  lng: number,
+  u: number,
+  v: number
+): { u: number; v: number } {
+  const angle = getProjector(projection).rotation(lng);
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return { u: cos * u - sin * v, v: sin * u + cos * v };
+}
@@ -0,0 +1,155 @@
+/**
+ * Run Difference ("dProg/dt")
+ *
+ * Builds Mapbox custom raster sources that show how a forecast changed
+ * between two model runs at the same valid time. Both runs' colored tiles
+ * are fetched, decoded back to values through the variable's color stops,
+ * subtracted (newer minus older) and re-colored with a diverging ramp.
+ */
+
+import type { CustomSourceInterface } from "mapbox-gl";
+import type { ModelDefinition } from "@/lib/modelRegistry";
+import { formatForecastHour } from "@/lib/modelRegistry";
+import type { ColorStop } from "@/hooks/useModelMetadata";
+import { parseRunTime } from "@/lib/validTime";
+import { fetchBlob, HttpError } from "@/lib/httpClient";
+import {
+  createColorDecoder,
+  createColorEncoder,
+  divergingColorStops,
+} from "@/lib/colorRamp";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface DifferenceSourceOptions {
+  /** Tile URL (with {z}/{x}/{y}) for the newer run */
+  currentTileUrl: string;
+  /** Tile URL (with {z}/{x}/{y}) for the older run, same valid time */
+  previousTileUrl: string;
+  /** Color stops used to decode both runs' tiles */
+  colorStops: ColorStop[];
+  /** Differences are colored on [-maxAbs, maxAbs] */
+  maxAbs: number;
+  tileSize?: number;
+  minzoom?: number;
+  maxzoom?: number;
+  bounds?: [number, number, number, number];
+}
+
+// =============================================================================
+// Run Alignment
+// =============================================================================
+
+/**
+ * Hours between two run timestamps ("20260111T18z" - "20260111T12z" = 6)
+ */
+export function hoursBetweenRuns(currentRun: string, previousRun: string): number | null {
+  const current = parseRunTime(currentRun);
+  const previous = parseRunTime(previousRun);
+  if (!current || !previous) return null;
+  return Math.round((current.getTime() - previous.getTime()) / 3600000);
+}
+
+/**
+ * Forecast hour of the previous run that verifies at the same time as
+ * `forecast` of the current run (null if the previous run doesn't have it).
+ */
+export function alignForecastHour(
+  model: ModelDefinition,
+  forecast: string,
+  runOffsetHours: number,
+  previousForecastHours: string[]
+): string | null {
+  const aligned = formatForecastHour(model, parseInt(forecast, 10) + runOffsetHours);
+  return previousForecastHours.includes(aligned) ? aligned : null;
+}
+
+// =============================================================================
+// Tile Decoding
+// =============================================================================
+
+const fillTemplate = (template: string, tile: { z: number; x: number; y: number }) =>
+  template
+    .replace("{z}", String(tile.z))
+    .replace("{x}", String(tile.x))
+    .replace("{y}", String(tile.y));
+
+/**
+ * Fetch a tile and return its pixels (null for missing tiles, e.g. outside the domain)
+ */
+async function fetchTilePixels(url: string, signal: AbortSignal): Promise<ImageData | null> {
+  let blob: Blob;
+  try {
+    blob = await fetchBlob(url, { signal, retries: 1 });
+  } catch (err) {
+    if (err instanceof HttpError) return null;
+    throw err;
+  }
+
+  const bitmap = await createImageBitmap(blob);
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) {
+    throw new Error("Failed to get canvas context");
+  }
+
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+}
+
+// =============================================================================
+// Custom Source
+// =============================================================================
+
+/**
+ * Create a custom raster source rendering (current - previous) for one forecast hour
+ */
+export function createDifferenceSource(
+  id: string,
+  options: DifferenceSourceOptions
+): CustomSourceInterface<ImageData> {
+  const { currentTileUrl, previousTileUrl, colorStops, maxAbs, bounds } = options;
+  const decode = createColorDecoder(colorStops);
+  const encode = createColorEncoder(divergingColorStops(maxAbs));
+
+  return {
+    id,
+    type: "custom",
+    dataType: "raster",
+    tileSize: options.tileSize ?? 256,
+    minzoom: options.minzoom ?? 0,
+    maxzoom: options.maxzoom ?? 8,
+    ...(bounds && { bounds }),
+
+    async loadTile(tile, { signal }) {
+      const [current, previous] = await Promise.all([
+        fetchTilePixels(fillTemplate(currentTileUrl, tile), signal),
+        fetchTilePixels(fillTemplate(previousTileUrl, tile), signal),
+      ]);
+
+      if (!current || !previous || current.width !== previous.width) return null;
+
+      const output = new ImageData(current.width, current.height);
+      const a = current.data;
+      const b = previous.data;
+      const out = output.data;
+
+      for (let i = 0; i < a.length; i += 4) {
+        const newer = decode(a[i], a[i + 1], a[i + 2], a[i + 3]);
+        const older = decode(b[i], b[i + 1], b[i + 2], b[i + 3]);
+        if (newer === null || older === null) continue; // Leave transparent
+
+        const [r, g, bl] = encode(newer - older);
+        out[i] = r;
+        out[i + 1] = g;
+        out[i + 2] = bl;
+        out[i + 3] = 255;
+      }
+
+      return output;
+    },
+  };
+}
@@ -0,0 +1,168 @@
+/**
+ * Valid Time
+ *
+ * Converts between (run timestamp, forecast hour) pairs and absolute UTC
+ * valid times for any registered model, so layers from models with
+ * different forecast-hour formats and output schedules ("07" hourly for
+ * HRRR, "126" 3-hourly for GFS-Wave beyond F120) can be lined up in time.
+ */
+
+import type { ModelDefinition } from "@/lib/modelRegistry";
+import { formatForecastHour } from "@/lib/modelRegistry";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ForecastFrame {
+  forecastHour: string; // Model-formatted: "07" / "007"
+  validTime: Date;
+  /** Frame valid time minus the requested valid time, in minutes */
+  offsetMinutes: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// =============================================================================
+// Run Timestamps
+// =============================================================================
+
+/**
+ * Parse a run timestamp to a Date.
+ * Handles the pipeline format ("20260111T18z") and ISO 8601
+ * ("2026-01-11T18:00:00+00:00").
+ */
+export function parseRunTime(runTimestamp: string): Date | null {
+  const compact = runTimestamp.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})z?$/i);
+  if (compact) {
+    const [, year, month, day, hour] = compact;
+    return new Date(
+      Date.UTC(parseInt(year), parseInt(month) - 1, parseInt(day), parseInt(hour))
+    );
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}T/.test(runTimestamp)) {
+    const date = new Date(runTimestamp);
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+
+  return null;
+}
+
+/**
+ * Add a forecast hour ("07", "126" or 7) to a run time
+ */
+export function addForecastHours(runTime: Date, forecastHour: string | number): Date {
+  const hours = typeof forecastHour === "number" ? forecastHour : parseInt(forecastHour, 10) || 0;
+  return new Date(runTime.getTime() + hours * HOUR_MS);
+}
+
+/**
+ * Absolute valid time of a forecast hour of a run
+ */
+export function getValidTime(runTimestamp: string, forecastHour: string | number): Date | null {
+  const runTime = parseRunTime(runTimestamp);
+  return runTime ? addForecastHours(runTime, forecastHour) : null;
+}
+
+// =============================================================================
+// Forecast Schedules
+// =============================================================================
+
+/**
+ * Whether the model produces output at this forecast hour
+ * (e.g. GFS-Wave only every 3 hours beyond F120)
+ */
+export function isScheduledForecastHour(model: ModelDefinition, hour: number): boolean {
+  if (!Number.isInteger(hour) || hour < 0) return false;
+
+  let start = 0;
+  for (const step of model.forecastSteps) {
+    if (hour <= step.untilHour) {
+      return (hour - start) % step.stepHours === 0;
+    }
+    start = step.untilHour;
+  }
+  return false;
+}
+
+/**
+ * Every forecast hour the model's schedule produces, formatted for the model
+ */
+export function getScheduledForecastHours(model: ModelDefinition): string[] {
+  const hours: string[] = [];
+  let hour = 0;
+  for (const step of model.forecastSteps) {
+    for (; hour <= step.untilHour; hour += step.stepHours) {
+      hours.push(formatForecastHour(model, hour));
+    }
+  }
+  return hours;
+}
+
+/**
+ * Forecast hour of a run that is valid at exactly `validTime`
+ * (null if before the run or not on the model's output schedule)
+ */
+export function getForecastHourAt(
+  model: ModelDefinition,
+  runTimestamp: string,
+  validTime: Date | number
+): string | null {
+  const runTime = parseRunTime(runTimestamp);
+  if (!runTime) return null;
+
+  const hours = (new Date(validTime).getTime() - runTime.getTime()) / HOUR_MS;
+  return isScheduledForecastHour(model, hours) ? formatForecastHour(model, hours) : null;
+}
+
+/**
+ * Frame of a run closest to `validTime`. Searches the given forecast hours
+ * (defaults to the model's full schedule); ties go to the earlier frame.
+ */
+export function findNearestFrame(
+  model: ModelDefinition,
+  runTimestamp: string,
+  validTime: Date | number,
+  forecastHours: string[] = getScheduledForecastHours(model)
+): ForecastFrame | null {
+  const runTime = parseRunTime(runTimestamp);
+  if (!runTime) return null;
+
+  const target = new Date(validTime).getTime();
+  let nearest: ForecastFrame | null = null;
+
+  forecastHours.forEach((forecastHour) => {
+    const frameTime = addForecastHours(runTime, forecastHour);
+    const offsetMinutes = Math.round((frameTime.getTime() - target) / 60000);
+
+    if (
+      !nearest ||
+      Math.abs(offsetMinutes) < Math.abs(nearest.offsetMinutes) ||
+      (Math.abs(offsetMinutes) === Math.abs(nearest.offsetMinutes) &&
+        offsetMinutes < nearest.offsetMinutes)
+    ) {
+      nearest = { forecastHour, validTime: frameTime, offsetMinutes };
+    }
+  });
+
+  return nearest;
+}
+
+// =============================================================================
+// Formatting
+// =============================================================================
+
+/**
+ * Format a time for display: "Jan 11, 06:00 PM UTC"
+ */
+export function formatUtcTime(date: Date): string {
+  return date.toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    timeZone: "UTC",
+    timeZoneName: "short",
+  });
+}
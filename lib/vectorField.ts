@@ -0,0 +1,62 @@
+/**
+ * Vector Field Profiles
+ *
+ * Display settings that let one particle renderer show any U/V flow. A
+ * profile gives the color ramp and its speed range (in the field's units),
+ * the particle speed multiplier and a units label. Wind levels are the only
+ * flow wired in so far; other sources need a U/V field in m/s and a profile.
+ */
+
+import type { RgbColor, WindLevel } from "@/lib/windLevels";
+import type { WindField } from "@/lib/windField";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface VectorFieldProfile {
+  id: string;
+  name: string;
+  units: string; // Label for speeds ("m/s")
+  minSpeed: number; // Bottom of the color ramp, in `units`
+  maxSpeed: number; // Top of the color ramp
+  colors: RgbColor[]; // Evenly spaced from minSpeed to maxSpeed
+  speedScale: number; // Multiplier on particle speed, so slow flows stay visible
+}
+
+/** A field (blended toward `next` between two forecast hours), as provided by useWindData */
+export interface VectorFieldData {
+  field: WindField;
+  next: WindField | null;
+  fromHour: number;
+  toHour: number;
+}
+
+// =============================================================================
+// Profiles
+// =============================================================================
+
+/**
+ * Profile for a wind level, from its color scale and particle speed
+ */
+export function windLevelProfile(level: WindLevel): VectorFieldProfile {
+  return {
+    id: `wind-${level.id}`,
+    name: level.name,
+    units: "m/s",
+    minSpeed: 0,
+    maxSpeed: level.style.maxSpeed,
+    colors: level.style.colors,
+    speedScale: level.style.speedScale,
+  };
+}
+
+/**
+ * Color for a speed on a profile's ramp (clamped at both ends)
+ */
+export function profileColor(profile: VectorFieldProfile, magnitude: number): RgbColor {
+  const { colors, minSpeed, maxSpeed } = profile;
+  const normalized = Math.min(Math.max((magnitude - minSpeed) / (maxSpeed - minSpeed), 0), 1);
+  const index = Math.min(Math.floor(normalized * (colors.length - 1)), colors.length - 1);
+  return colors[index];
+}
@@ -0,0 +1,181 @@
+/**
+ * Binary Wind Format
+ *
+ * Compact alternative to the quantized PNGs for light-wind detail: a JSON
+ * header followed by planar float16 or int16 channels. 8-bit PNG steps are
+ * ~0.4 m/s over -50..50; float16 keeps ~0.03 m/s below 50 m/s and int16
+ * whatever its scale gives (0.01 m/s typically).
+ *
+ * Layout (little-endian):
+ *   uint32    header length N in bytes
+ *   N bytes   UTF-8 JSON header (WindBinaryHeader)
+ *   payload   one width*height plane per channel, rows from the north-west corner
+ *
+ * Files may be gzip- or brotli-compressed. Brotli has to be served with
+ * `Content-Encoding: br` so the browser inflates it; gzip is also accepted
+ * as raw .gz bytes and inflated here.
+ */
+
+import type { WindSample } from "@/lib/windEncoding";
+import { buildWindField } from "@/lib/windField";
+import type { WindField, WindFieldBounds } from "@/lib/windField";
+import type { GridProjection } from "@/lib/projection";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Wire formats listed in latest_wind.json `format` */
+export type WindDataFormat = "png" | "binary";
+
+export type WindBinaryDtype = "float16" | "int16";
+
+export interface WindBinaryHeader {
+  width: number;
+  height: number;
+  dtype: WindBinaryDtype;
+  channels: ("u" | "v" | "speed" | "gust")[]; // Plane order; u and v are required
+  scale?: number; // int16: value = raw * scale + offset (default 1)
+  offset?: number; // int16 (default 0)
+  nodata?: number; // int16 raw value marking no data (default -32768); float16 uses NaN
+}
+
+/**
+ * The binary payload is truncated or its header is unusable
+ */
+export class WindBinaryError extends Error {
+  constructor(message: string) {
+    super(`Invalid binary wind field: ${message}`);
+    this.name = "WindBinaryError";
+  }
+}
+
+const BYTES_PER_VALUE = 2;
+const INT16_NODATA = -32768;
+
+// =============================================================================
+// Float16
+// =============================================================================
+
+/**
+ * IEEE 754 half-precision bits to a number
+ */
+export function float16ToNumber(bits: number): number {
+  const sign = bits & 0x8000 ? -1 : 1;
+  const exponent = (bits >> 10) & 0x1f;
+  const fraction = bits & 0x03ff;
+
+  if (exponent === 0) return sign * Math.pow(2, -14) * (fraction / 1024); // Subnormal
+  if (exponent === 0x1f) return fraction ? NaN : sign * Infinity;
+  return sign * Math.pow(2, exponent - 15) * (1 + fraction / 1024);
+}
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+function parseHeader(view: DataView): { header: WindBinaryHeader; payloadOffset: number } {
+  if (view.byteLength < 4) throw new WindBinaryError("missing header");
+
+  const headerLength = view.getUint32(0, true);
+  if (4 + headerLength > view.byteLength) throw new WindBinaryError("header is truncated");
+
+  let header: WindBinaryHeader;
+  try {
+    const bytes = new Uint8Array(view.buffer, view.byteOffset + 4, headerLength);
+    header = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    throw new WindBinaryError("header is not valid JSON");
+  }
+
+  const { width, height, dtype, channels } = header;
+  if (!(Number.isInteger(width) && width > 0 && Number.isInteger(height) && height > 0)) {
+    throw new WindBinaryError("width and height must be positive integers");
+  }
+  if (dtype !== "float16" && dtype !== "int16") {
+    throw new WindBinaryError(`unsupported dtype ${String(dtype)}`);
+  }
+  if (!Array.isArray(channels) || !channels.includes("u") || !channels.includes("v")) {
+    throw new WindBinaryError("channels must include u and v");
+  }
+
+  const payloadOffset = 4 + headerLength;
+  const expected = width * height * channels.length * BYTES_PER_VALUE;
+  if (view.byteLength - payloadOffset < expected) {
+    throw new WindBinaryError(`payload is truncated (${view.byteLength - payloadOffset} of ${expected} bytes)`);
+  }
+
+  return { header, payloadOffset };
+}
+
+/**
+ * Decode a binary wind payload into a wind field (same shape as the PNG path)
+ */
+export function parseWindBinary(
+  buffer: ArrayBuffer,
+  bounds: WindFieldBounds,
+  projection: GridProjection | null = null
+): WindField {
+  const view = new DataView(buffer);
+  const { header, payloadOffset } = parseHeader(view);
+  const { width, height, dtype, channels } = header;
+  const planeBytes = width * height * BYTES_PER_VALUE;
+
+  const scale = header.scale ?? 1;
+  const offset = header.offset ?? 0;
+  const nodata = header.nodata ?? INT16_NODATA;
+
+  // Value of one plane at a cell (NaN for no data)
+  const readValue =
+    dtype === "float16"
+      ? (byteOffset: number) => float16ToNumber(view.getUint16(byteOffset, true))
+      : (byteOffset: number) => {
+          const raw = view.getInt16(byteOffset, true);
+          return raw === nodata ? NaN : raw * scale + offset;
+        };
+
+  const planeOffset = (channel: "u" | "v" | "speed" | "gust") => {
+    const index = channels.indexOf(channel);
+    return index >= 0 ? payloadOffset + index * planeBytes : -1;
+  };
+  const uOffset = planeOffset("u");
+  const vOffset = planeOffset("v");
+  const speedOffset = planeOffset("speed");
+  const gustOffset = planeOffset("gust");
+
+  const read = (i: number): WindSample | null => {
+    const byteOffset = i * BYTES_PER_VALUE;
+    const u = readValue(uOffset + byteOffset);
+    const v = readValue(vOffset + byteOffset);
+    if (!Number.isFinite(u) || !Number.isFinite(v)) return null;
+
+    const speed = speedOffset >= 0 ? readValue(speedOffset + byteOffset) : NaN;
+    const sample: WindSample = { u, v, magnitude: Number.isFinite(speed) ? speed : Math.sqrt(u * u + v * v) };
+    if (gustOffset >= 0) {
+      const gust = readValue(gustOffset + byteOffset);
+      sample.gust = Number.isFinite(gust) ? gust : sample.magnitude;
+    }
+    return sample;
+  };
+
+  return buildWindField(width, height, bounds, projection, read, gustOffset >= 0);
+}
+
+/**
+ * Read a downloaded binary wind file, inflating it first if it is still gzipped
+ */
+export async function decodeWindBinary(
+  blob: Blob,
+  bounds: WindFieldBounds,
+  projection: GridProjection | null = null
+): Promise<WindField> {
+  let buffer = await blob.arrayBuffer();
+
+  const magic = new Uint8Array(buffer, 0, Math.min(2, buffer.byteLength));
+  if (magic[0] === 0x1f && magic[1] === 0x8b) {
+    const stream = new Blob([buffer]).stream().pipeThrough(new DecompressionStream("gzip"));
+    buffer = await new Response(stream).arrayBuffer();
+  }
+
+  return parseWindBinary(buffer, bounds, projection);
+}
@@ -0,0 +1,193 @@
+/**
+ * Wind Encoding
+ *
+ * Single decoder for the quantized wind PNGs, driven by the `encoding` block
+ * of latest_wind.json. Each RGB channel carries one quantity (u, v, speed or
+ * gust) with its own range and offset; pixels matching the no-data mask decode to
+ * null. Every renderer decodes through here so the pipeline can change its
+ * quantization without touching them.
+ *
+ * Kept free of app imports so the React Native components can share it.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Per-channel override in the metadata encoding block */
+export interface ChannelEncodingBlock {
+  min_value: number;
+  max_value: number;
+  offset?: number;
+}
+
+/** `encoding` block of latest_wind.json */
+export interface WindEncodingBlock {
+  r_channel?: string; // "u_component"
+  g_channel?: string; // "v_component"
+  b_channel?: string; // "magnitude", or "gust" for a gust field
+  min_value: number; // Shared range of the vector channels
+  max_value: number;
+  zero_value?: number; // Byte value that encodes 0 m/s
+  channels?: Partial<Record<"r" | "g" | "b", ChannelEncodingBlock>>;
+  nodata?: {
+    alpha_below?: number; // Pixels with alpha below this are no data (default 1)
+    rgb?: [number, number, number]; // Sentinel color marking no data
+  };
+}
+
+export type WindQuantity = "u" | "v" | "speed" | "gust" | "unused";
+
+export interface ChannelEncoding {
+  quantity: WindQuantity;
+  min: number; // Value of byte 0
+  max: number; // Value of byte 255
+  offset: number; // Added after scaling
+}
+
+export interface WindEncoding {
+  r: ChannelEncoding;
+  g: ChannelEncoding;
+  b: ChannelEncoding;
+  noData: {
+    alphaBelow: number;
+    rgb: [number, number, number] | null;
+  };
+}
+
+export interface WindSample {
+  u: number; // m/s, eastward
+  v: number; // m/s, northward
+  magnitude: number; // m/s
+  gust?: number; // m/s, when the data carries a gust field
+}
+
+export interface WindDecoder {
+  encoding: WindEncoding;
+  /** A channel carries gusts (samples include `gust`) */
+  hasGust: boolean;
+  /** Decode one pixel (null for no data) */
+  decode: (r: number, g: number, b: number, a: number) => WindSample | null;
+  /** Decode the pixel at byte offset `index` of an RGBA buffer */
+  decodeAt: (data: ArrayLike<number>, index: number) => WindSample | null;
+}
+
+// =============================================================================
+// Encoding From Metadata
+// =============================================================================
+
+/**
+ * Encoding the renderers assumed before it was read from metadata:
+ * u/v on -50..50 m/s, speed on 0..70.7 m/s, alpha 0 = no data
+ */
+export const DEFAULT_WIND_ENCODING: WindEncoding = {
+  r: { quantity: "u", min: -50, max: 50, offset: 0 },
+  g: { quantity: "v", min: -50, max: 50, offset: 0 },
+  b: { quantity: "speed", min: 0, max: 50 * Math.SQRT2, offset: 0 },
+  noData: { alphaBelow: 1, rgb: null },
+};
+
+/**
+ * Channel meaning from its description ("u_component", "wind_speed", ...)
+ */
+function parseQuantity(description: string | undefined, fallback: WindQuantity): WindQuantity {
+  if (!description) return fallback;
+  const text = description.toLowerCase();
+  if (/gust/.test(text)) return "gust"; // Before speed: "gust_speed"
+  if (/speed|magnitude|mag\b/.test(text)) return "speed";
+  if (/^u\b|^u[_-]|east/.test(text)) return "u";
+  if (/^v\b|^v[_-]|north/.test(text)) return "v";
+  if (/unused|none|empty/.test(text)) return "unused";
+  return fallback;
+}
+
+/**
+ * Build the decoder configuration from a metadata encoding block
+ */
+export function windEncodingFromMetadata(block: WindEncodingBlock | null | undefined): WindEncoding {
+  if (!block) return DEFAULT_WIND_ENCODING;
+
+  const { min_value: min, max_value: max, zero_value: zero } = block;
+
+  // zero_value is the byte that encodes 0; shift the vector channels so it decodes exactly
+  const vectorOffset =
+    zero !== undefined && zero > 0 && zero < 255 && min < 0 && max > 0
+      ? -(min + (zero / 255) * (max - min))
+      : 0;
+  // Largest speed the vector range can represent
+  const maxSpeed = Math.max(Math.abs(min), Math.abs(max)) * Math.SQRT2;
+
+  const channel = (
+    key: "r" | "g" | "b",
+    description: string | undefined,
+    fallback: WindQuantity
+  ): ChannelEncoding => {
+    const quantity = parseQuantity(description, fallback);
+    const override = block.channels?.[key];
+    if (override) {
+      return {
+        quantity,
+        min: override.min_value,
+        max: override.max_value,
+        offset: override.offset ?? 0,
+      };
+    }
+    return quantity === "speed" || quantity === "gust"
+      ? { quantity, min: 0, max: maxSpeed, offset: 0 }
+      : { quantity, min, max, offset: vectorOffset };
+  };
+
+  return {
+    r: channel("r", block.r_channel, "u"),
+    g: channel("g", block.g_channel, "v"),
+    b: channel("b", block.b_channel, "speed"),
+    noData: {
+      alphaBelow: block.nodata?.alpha_below ?? 1,
+      rgb: block.nodata?.rgb ?? null,
+    },
+  };
+}
+
+// =============================================================================
+// Decoder
+// =============================================================================
+
+/**
+ * Create a pixel decoder for an encoding. Speed is taken from its channel
+ * when one carries it, otherwise computed from u and v; gust only comes from
+ * a channel.
+ */
+export function createWindDecoder(encoding: WindEncoding = DEFAULT_WIND_ENCODING): WindDecoder {
+  const channels = [encoding.r, encoding.g, encoding.b];
+  const scales = channels.map((c) => (c.max - c.min) / 255);
+  const uIndex = channels.findIndex((c) => c.quantity === "u");
+  const vIndex = channels.findIndex((c) => c.quantity === "v");
+  const speedIndex = channels.findIndex((c) => c.quantity === "speed");
+  const gustIndex = channels.findIndex((c) => c.quantity === "gust");
+  const { alphaBelow, rgb: noDataRgb } = encoding.noData;
+
+  const value = (index: number, byte: number) =>
+    channels[index].min + byte * scales[index] + channels[index].offset;
+
+  const decode = (r: number, g: number, b: number, a: number): WindSample | null => {
+    if (a < alphaBelow) return null;
+    if (noDataRgb && r === noDataRgb[0] && g === noDataRgb[1] && b === noDataRgb[2]) return null;
+
+    // Called per particle per frame: pick channel bytes without allocating
+    const byte = (index: number) => (index === 0 ? r : index === 1 ? g : b);
+    const u = uIndex >= 0 ? value(uIndex, byte(uIndex)) : 0;
+    const v = vIndex >= 0 ? value(vIndex, byte(vIndex)) : 0;
+    const magnitude =
+      speedIndex >= 0 ? value(speedIndex, byte(speedIndex)) : Math.sqrt(u * u + v * v);
+
+    if (gustIndex < 0) return { u, v, magnitude };
+    return { u, v, magnitude, gust: value(gustIndex, byte(gustIndex)) };
+  };
+
+  return {
+    encoding,
+    hasGust: gustIndex >= 0,
+    decode,
+    decodeAt: (data, index) => decode(data[index], data[index + 1], data[index + 2], data[index + 3]),
+  };
+}
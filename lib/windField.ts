@@ -0,0 +1,351 @@
+/**
+ * Wind Field
+ *
+ * Decoded wind grid shared by the particle renderers and point queries:
+ * per-cell u, v and speed in m/s plus a data mask, in row-major order from
+ * the north-west corner. Produced once per forecast hour (in a worker, see
+ * windFieldLoader) instead of re-decoding PNG bytes every frame.
+ *
+ * Grids are either plain lat/lng boxes or projected (native Lambert
+ * Conformal HRRR); u/v are always stored earth-relative.
+ */
+
+import type { WindDecoder, WindSample } from "@/lib/windEncoding";
+import {
+  lngLatToProjectedGrid,
+  projectedGridToLngLat,
+  rotateToEarth,
+  rotateToGrid,
+} from "@/lib/projection";
+import type { GridPoint, GridProjection } from "@/lib/projection";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface WindFieldBounds {
+  west: number;
+  east: number;
+  south: number;
+  north: number;
+}
+
+export interface WindField {
+  width: number;
+  height: number;
+  bounds: WindFieldBounds; // Lat/lng box enclosing the grid
+  projection: GridProjection | null; // Null for a linear lat/lng grid
+  u: Float32Array; // m/s, eastward
+  v: Float32Array; // m/s, northward
+  speed: Float32Array; // m/s
+  gust: Float32Array | null; // m/s, when the source carries a gust field
+  mask: Uint8Array; // 1 = valid data, 0 = no data
+}
+
+/** How sampleWindField reads between cell centers */
+export type SamplingMode = "nearest" | "bilinear" | "bicubic";
+
+// =============================================================================
+// Decoding
+// =============================================================================
+
+/**
+ * Build a wind field from a per-cell reader (null = no data), whatever the
+ * source format. Grid-relative winds on a projected grid are rotated to
+ * earth-relative per cell.
+ */
+export function buildWindField(
+  width: number,
+  height: number,
+  bounds: WindFieldBounds,
+  projection: GridProjection | null,
+  read: (index: number) => WindSample | null,
+  hasGust = false
+): WindField {
+  const count = width * height;
+  const u = new Float32Array(count);
+  const v = new Float32Array(count);
+  const speed = new Float32Array(count);
+  const gust = hasGust ? new Float32Array(count) : null;
+  const mask = new Uint8Array(count);
+  const rotate = projection?.gridRelativeWind ? projection : null;
+
+  for (let i = 0; i < count; i++) {
+    const sample = read(i);
+    if (!sample) continue; // Left as zero, masked out
+
+    if (rotate) {
+      const { lng } = projectedGridToLngLat(rotate, (i % width) + 0.5, Math.floor(i / width) + 0.5);
+      const earth = rotateToEarth(rotate, lng, sample.u, sample.v);
+      u[i] = earth.u;
+      v[i] = earth.v;
+    } else {
+      u[i] = sample.u;
+      v[i] = sample.v;
+    }
+    speed[i] = sample.magnitude;
+    if (gust) gust[i] = sample.gust ?? sample.magnitude;
+    mask[i] = 1;
+  }
+
+  return { width, height, bounds, projection, u, v, speed, gust, mask };
+}
+
+/**
+ * Decode an RGBA pixel buffer (quantized wind PNG) into a wind field
+ */
+export function decodeWindField(
+  pixels: ArrayLike<number>,
+  width: number,
+  height: number,
+  bounds: WindFieldBounds,
+  decoder: WindDecoder,
+  projection: GridProjection | null = null
+): WindField {
+  return buildWindField(
+    width,
+    height,
+    bounds,
+    projection,
+    (i) => decoder.decodeAt(pixels, i * 4),
+    decoder.hasGust
+  );
+}
+
+/**
+ * Arrays to transfer (not copy) when posting a field between threads
+ */
+export function windFieldTransferables(field: WindField): ArrayBuffer[] {
+  const arrays = [field.u, field.v, field.speed, field.mask, field.gust];
+  return arrays.filter((array) => array !== null).map((array) => array!.buffer as ArrayBuffer);
+}
+
+// =============================================================================
+// Sampling
+// =============================================================================
+
+/**
+ * Fractional grid position of a longitude/latitude (may fall outside the grid).
+ * Pass `out` to reuse an object in hot loops.
+ */
+export function lngLatToGrid(
+  field: WindField,
+  lng: number,
+  lat: number,
+  out: GridPoint = { x: 0, y: 0 }
+): GridPoint {
+  if (field.projection) return lngLatToProjectedGrid(field.projection, lng, lat, out);
+  const { width, height, bounds } = field;
+  out.x = ((lng - bounds.west) / (bounds.east - bounds.west)) * width;
+  out.y = ((bounds.north - lat) / (bounds.north - bounds.south)) * height;
+  return out;
+}
+
+/**
+ * Longitude/latitude of a fractional grid position
+ */
+export function gridToLngLat(field: WindField, x: number, y: number): { lng: number; lat: number } {
+  if (field.projection) return projectedGridToLngLat(field.projection, x, y);
+  const { width, height, bounds } = field;
+  return {
+    lng: bounds.west + (x / width) * (bounds.east - bounds.west),
+    lat: bounds.north - (y / height) * (bounds.north - bounds.south),
+  };
+}
+
+/**
+ * Earth-relative wind expressed along the grid axes at (x, y), for moving
+ * things in grid space (+u is +x, +v is -y). Unchanged on lat/lng grids.
+ */
+export function toGridVelocity(
+  field: WindField,
+  x: number,
+  y: number,
+  u: number,
+  v: number
+): { u: number; v: number } {
+  if (!field.projection) return { u, v };
+  const { lng } = projectedGridToLngLat(field.projection, x, y);
+  return rotateToGrid(field.projection, lng, u, v);
+}
+
+// Scratch space for the samplers; sampling is synchronous, so one set is enough
+const bilinearIndices = new Int32Array(4);
+const bilinearWeights = new Float64Array(4);
+const cubicX = new Float64Array(4);
+const cubicY = new Float64Array(4);
+const blendFrom: WindSample = { u: 0, v: 0, magnitude: 0 };
+const blendTo: WindSample = { u: 0, v: 0, magnitude: 0 };
+
+const newSample = (): WindSample => ({ u: 0, v: 0, magnitude: 0 });
+
+/** Fill `out` (gust only when the field has one) */
+function writeSample(out: WindSample, field: WindField, u: number, v: number, magnitude: number, gust: number) {
+  out.u = u;
+  out.v = v;
+  out.magnitude = magnitude;
+  out.gust = field.gust ? gust : undefined;
+  return out;
+}
+
+/**
+ * Value of the grid cell containing (x, y)
+ */
+function sampleNearest(field: WindField, x: number, y: number, out: WindSample): WindSample | null {
+  const index = Math.floor(y) * field.width + Math.floor(x);
+  if (!field.mask[index]) return null;
+  return writeSample(out, field, field.u[index], field.v[index], field.speed[index], field.gust?.[index] ?? 0);
+}
+
+/**
+ * Bilinear blend of the four surrounding cell centers. Masked neighbors are
+ * dropped and the remaining weights renormalized, so coastlines never blend
+ * real wind with no-data zeros.
+ */
+function sampleBilinear(field: WindField, x: number, y: number, out: WindSample): WindSample | null {
+  const { width, height, mask } = field;
+
+  // Cell centers sit at (i + 0.5, j + 0.5)
+  const fx = x - 0.5;
+  const fy = y - 0.5;
+  const x0 = Math.floor(fx);
+  const y0 = Math.floor(fy);
+  const tx = fx - x0;
+  const ty = fy - y0;
+
+  const xa = Math.max(0, x0);
+  const xb = Math.min(width - 1, x0 + 1);
+  const ya = Math.max(0, y0);
+  const yb = Math.min(height - 1, y0 + 1);
+
+  const indices = bilinearIndices;
+  const weights = bilinearWeights;
+  indices[0] = ya * width + xa;
+  indices[1] = ya * width + xb;
+  indices[2] = yb * width + xa;
+  indices[3] = yb * width + xb;
+  weights[0] = (1 - tx) * (1 - ty);
+  weights[1] = tx * (1 - ty);
+  weights[2] = (1 - tx) * ty;
+  weights[3] = tx * ty;
+
+  let u = 0;
+  let v = 0;
+  let speed = 0;
+  let gust = 0;
+  let total = 0;
+  for (let i = 0; i < 4; i++) {
+    const index = indices[i];
+    if (!mask[index] || weights[i] === 0) continue;
+    u += field.u[index] * weights[i];
+    v += field.v[index] * weights[i];
+    speed += field.speed[index] * weights[i];
+    if (field.gust) gust += field.gust[index] * weights[i];
+    total += weights[i];
+  }
+
+  if (total === 0) return null;
+  return writeSample(out, field, u / total, v / total, speed / total, gust / total);
+}
+
+/** Catmull-Rom weights for the 4 taps around fractional offset t */
+function cubicWeights(t: number, out: Float64Array): Float64Array {
+  const t2 = t * t;
+  const t3 = t2 * t;
+  out[0] = 0.5 * (-t3 + 2 * t2 - t);
+  out[1] = 0.5 * (3 * t3 - 5 * t2 + 2);
+  out[2] = 0.5 * (-3 * t3 + 4 * t2 + t);
+  out[3] = 0.5 * (t3 - t2);
+  return out;
+}
+
+/**
+ * Bicubic (Catmull-Rom) over the surrounding 4x4 cells; falls back to
+ * bilinear when any of them is masked. Speed is clamped at zero since the
+ * kernel can overshoot.
+ */
+function sampleBicubic(field: WindField, x: number, y: number, out: WindSample): WindSample | null {
+  const { width, height, mask } = field;
+
+  const fx = x - 0.5;
+  const fy = y - 0.5;
+  const x0 = Math.floor(fx);
+  const y0 = Math.floor(fy);
+  const wx = cubicWeights(fx - x0, cubicX);
+  const wy = cubicWeights(fy - y0, cubicY);
+
+  let u = 0;
+  let v = 0;
+  let speed = 0;
+  let gust = 0;
+  for (let j = 0; j < 4; j++) {
+    const row = Math.min(height - 1, Math.max(0, y0 - 1 + j)) * width;
+    for (let i = 0; i < 4; i++) {
+      const index = row + Math.min(width - 1, Math.max(0, x0 - 1 + i));
+      if (!mask[index]) return sampleBilinear(field, x, y, out);
+      const weight = wx[i] * wy[j];
+      u += field.u[index] * weight;
+      v += field.v[index] * weight;
+      speed += field.speed[index] * weight;
+      if (field.gust) gust += field.gust[index] * weight;
+    }
+  }
+
+  return writeSample(out, field, u, v, Math.max(0, speed), Math.max(0, gust));
+}
+
+/**
+ * Wind at fractional grid position (x, y). Null outside the grid or when the
+ * containing cell is masked; neighbors are only blended when they hold data.
+ * Pass `out` to reuse a sample object in hot loops.
+ */
+export function sampleWindField(
+  field: WindField,
+  x: number,
+  y: number,
+  mode: SamplingMode = "bilinear",
+  out: WindSample = newSample()
+): WindSample | null {
+  if (!(x >= 0 && x < field.width && y >= 0 && y < field.height)) return null;
+  if (!field.mask[Math.floor(y) * field.width + Math.floor(x)]) return null;
+
+  switch (mode) {
+    case "nearest":
+      return sampleNearest(field, x, y, out);
+    case "bicubic":
+      return sampleBicubic(field, x, y, out);
+    default:
+      return sampleBilinear(field, x, y, out);
+  }
+}
+
+/**
+ * Wind at (x, y) blended between two forecast hours' fields (t = 0 -> `from`,
+ * t = 1 -> `to`). Where only one of them has data, that one is returned.
+ */
+export function sampleWindFieldBlend(
+  from: WindField,
+  to: WindField | null,
+  t: number,
+  x: number,
+  y: number,
+  mode: SamplingMode = "bilinear",
+  out: WindSample = newSample()
+): WindSample | null {
+  const sameGrid = to !== null && to.width === from.width && to.height === from.height;
+  if (!sameGrid || t <= 0) return sampleWindField(from, x, y, mode, out);
+  if (t >= 1) return sampleWindField(to, x, y, mode, out);
+
+  const a = sampleWindField(from, x, y, mode, blendFrom);
+  const b = sampleWindField(to, x, y, mode, blendTo);
+  if (!a || !b) {
+    const only = a ?? b;
+    return only && Object.assign(out, only);
+  }
+
+  out.u = a.u + (b.u - a.u) * t;
+  out.v = a.v + (b.v - a.v) * t;
+  out.magnitude = a.magnitude + (b.magnitude - a.magnitude) * t;
+  out.gust = a.gust !== undefined && b.gust !== undefined ? a.gust + (b.gust - a.gust) * t : undefined;
+  return out;
+}
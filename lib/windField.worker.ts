@@ -0,0 +1,60 @@
+/**
+ * Wind Field Worker
+ *
+ * Fetches a wind file, decodes it (PNGs with createImageBitmap/OffscreenCanvas,
+ * binary files directly) and posts the resulting WindField back with its
+ * arrays transferred. Driven by windFieldLoader; one message per request,
+ * cancellable by id.
+ */
+
+import { fetchBlob } from "@/lib/httpClient";
+import { createWindDecoder } from "@/lib/windEncoding";
+import { decodeWindField, windFieldTransferables } from "@/lib/windField";
+import type { WindField } from "@/lib/windField";
+import { decodeWindBinary } from "@/lib/windBinary";
+import type { WindFieldRequest, WindFieldResponse } from "@/lib/windFieldLoader";
+import { decodeWindImage } from "@/lib/windFieldLoader";
+
+// Worker global scope (the project compiles against the DOM lib only)
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<WindFieldRequest>) => void) | null;
+  postMessage: (message: WindFieldResponse, transfer?: Transferable[]) => void;
+};
+
+const controllers = new Map<number, AbortController>();
+
+scope.onmessage = async (event) => {
+  const message = event.data;
+
+  if (message.type === "cancel") {
+    controllers.get(message.id)?.abort();
+    controllers.delete(message.id);
+    return;
+  }
+
+  const { id, url, bounds, encoding, format, projection } = message;
+  const controller = new AbortController();
+  controllers.set(id, controller);
+
+  try {
+    const blob = await fetchBlob(url, { signal: controller.signal, label: "wind data" });
+    let field: WindField;
+    if (format === "binary") {
+      field = await decodeWindBinary(blob, bounds, projection);
+    } else {
+      const { pixels, width, height } = await decodeWindImage(blob);
+      field = decodeWindField(pixels, width, height, bounds, createWindDecoder(encoding), projection);
+    }
+
+    if (!controller.signal.aborted) {
+      scope.postMessage({ type: "field", id, field }, windFieldTransferables(field));
+    }
+  } catch (err) {
+    if (!controller.signal.aborted) {
+      const error = err instanceof Error ? err : new Error(String(err));
+      scope.postMessage({ type: "error", id, error: { name: error.name, message: error.message } });
+    }
+  } finally {
+    controllers.delete(id);
+  }
+};
@@ -0,0 +1,191 @@
+/**
+ * Wind Field Cache
+ *
+ * Decoded wind fields keyed by model run and forecast hour, evicted least
+ * recently used once their combined size passes a byte budget. Loads are
+ * shared: a prefetch and a display request for the same hour use a single
+ * download, and a caller abandoning its wait does not cancel the load.
+ */
+
+import type { WindField } from "@/lib/windField";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type WindFieldStatus = "loading" | "ready" | "error";
+
+export type WindFieldLoad = (signal: AbortSignal) => Promise<WindField>;
+
+export interface WindFieldCacheOptions {
+  /** Budget for decoded arrays in bytes (default DEFAULT_WIND_CACHE_BYTES) */
+  maxBytes?: number;
+}
+
+export interface WindFieldCache {
+  readonly maxBytes: number;
+  /** Bytes held by ready fields */
+  readonly bytes: number;
+  /** Cached field, or a shared in-flight load. `signal` only abandons this caller's wait. */
+  get: (key: string, load: WindFieldLoad, signal?: AbortSignal) => Promise<WindField>;
+  /** Start a background load unless the key is cached, loading or failed */
+  prefetch: (key: string, load: WindFieldLoad) => void;
+  status: (key: string) => WindFieldStatus | undefined;
+  /** Keys eviction must skip (e.g. the hours on screen); replaces the previous set */
+  pin: (keys: string[]) => void;
+  /** Called whenever an entry's status changes or it is evicted */
+  subscribe: (listener: () => void) => () => void;
+  /** Drop every entry and cancel in-flight loads */
+  clear: () => void;
+}
+
+interface CacheEntry {
+  status: WindFieldStatus;
+  promise: Promise<WindField>;
+  controller: AbortController;
+  bytes: number;
+}
+
+// Roughly eight HRRR CONUS fields (1799x1059 cells, 13 bytes each)
+export const DEFAULT_WIND_CACHE_BYTES = 192 * 1024 * 1024;
+
+const abortError = () => new DOMException("The request was aborted", "AbortError");
+
+/**
+ * Memory held by a decoded field's arrays
+ */
+export function windFieldBytes(field: WindField): number {
+  const { u, v, speed, gust, mask } = field;
+  return u.byteLength + v.byteLength + speed.byteLength + (gust?.byteLength ?? 0) + mask.byteLength;
+}
+
+/**
+ * Wait for `promise` unless `signal` aborts first (the promise itself keeps running)
+ */
+function waitWithSignal<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(abortError());
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortError());
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener("abort", onAbort);
+        resolve(value);
+      },
+      (err) => {
+        signal.removeEventListener("abort", onAbort);
+        reject(err);
+      }
+    );
+  });
+}
+
+// =============================================================================
+// Cache
+// =============================================================================
+
+export function createWindFieldCache(options: WindFieldCacheOptions = {}): WindFieldCache {
+  const maxBytes = options.maxBytes ?? DEFAULT_WIND_CACHE_BYTES;
+  // Map order is recency order: oldest first
+  const entries = new Map<string, CacheEntry>();
+  const listeners = new Set<() => void>();
+  let pinned = new Set<string>();
+  let bytes = 0;
+
+  const notify = () => listeners.forEach((listener) => listener());
+
+  const touch = (key: string, entry: CacheEntry) => {
+    entries.delete(key);
+    entries.set(key, entry);
+  };
+
+  // Evict least recently used ready fields until back under budget
+  const evict = () => {
+    let evicted = false;
+    for (const [key, entry] of Array.from(entries)) {
+      if (bytes <= maxBytes) break;
+      if (entry.status !== "ready" || pinned.has(key)) continue;
+      entries.delete(key);
+      bytes -= entry.bytes;
+      evicted = true;
+    }
+    if (evicted) notify();
+  };
+
+  const start = (key: string, load: WindFieldLoad): CacheEntry => {
+    const controller = new AbortController();
+    const entry: CacheEntry = {
+      status: "loading",
+      promise: load(controller.signal),
+      controller,
+      bytes: 0,
+    };
+    entries.set(key, entry);
+
+    entry.promise.then(
+      (field) => {
+        if (entries.get(key) !== entry) return; // Cleared meanwhile
+        entry.status = "ready";
+        entry.bytes = windFieldBytes(field);
+        bytes += entry.bytes;
+        notify();
+        evict();
+      },
+      () => {
+        if (entries.get(key) !== entry) return;
+        entry.status = "error";
+        notify();
+      }
+    );
+    notify();
+    return entry;
+  };
+
+  return {
+    maxBytes,
+    get bytes() {
+      return bytes;
+    },
+
+    get(key, load, signal) {
+      let entry = entries.get(key);
+      if (entry && entry.status !== "error") {
+        touch(key, entry);
+      } else {
+        // Failed loads are retried when something actually needs the hour
+        if (entry) entries.delete(key);
+        entry = start(key, load);
+      }
+      return waitWithSignal(entry.promise, signal);
+    },
+
+    prefetch(key, load) {
+      if (!entries.has(key)) start(key, load);
+    },
+
+    status(key) {
+      return entries.get(key)?.status;
+    },
+
+    pin(keys) {
+      pinned = new Set(keys);
+      evict();
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    clear() {
+      entries.forEach((entry) => entry.controller.abort());
+      entries.clear();
+      bytes = 0;
+      notify();
+    },
+  };
+}
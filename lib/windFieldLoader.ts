@@ -0,0 +1,197 @@
+/**
+ * Wind Field Loader
+ *
+ * Main-thread entry point for loading a wind PNG or binary wind file as a
+ * WindField. The fetch and decode run in a shared Web Worker
+ * (windField.worker.ts); browsers without module workers or OffscreenCanvas
+ * decode on the main thread.
+ */
+
+import { fetchBlob } from "@/lib/httpClient";
+import { createWindDecoder } from "@/lib/windEncoding";
+import type { WindEncoding } from "@/lib/windEncoding";
+import { decodeWindField } from "@/lib/windField";
+import type { WindField, WindFieldBounds } from "@/lib/windField";
+import type { GridProjection } from "@/lib/projection";
+import { decodeWindBinary } from "@/lib/windBinary";
+import type { WindDataFormat } from "@/lib/windBinary";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface LoadWindFieldOptions {
+  bounds: WindFieldBounds;
+  encoding: WindEncoding; // Used by the PNG format only
+  format?: WindDataFormat; // Default "png"
+  projection?: GridProjection | null; // Omit for a linear lat/lng grid
+  signal?: AbortSignal;
+}
+
+/** Messages sent to the worker */
+export type WindFieldRequest =
+  | {
+      type: "decode";
+      id: number;
+      url: string;
+      bounds: WindFieldBounds;
+      encoding: WindEncoding;
+      format: WindDataFormat;
+      projection: GridProjection | null;
+    }
+  | { type: "cancel"; id: number };
+
+/** Messages sent back by the worker */
+export type WindFieldResponse =
+  | { type: "field"; id: number; field: WindField }
+  | { type: "error"; id: number; error: { name: string; message: string } };
+
+const abortError = () => new DOMException("The request was aborted", "AbortError");
+
+// =============================================================================
+// Image Decoding (shared with the worker)
+// =============================================================================
+
+/**
+ * Decode an image blob to RGBA pixels with createImageBitmap + OffscreenCanvas
+ */
+export async function decodeWindImage(
+  blob: Blob
+): Promise<{ pixels: Uint8ClampedArray; width: number; height: number }> {
+  const bitmap = await createImageBitmap(blob);
+  const { width, height } = bitmap;
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) {
+    bitmap.close();
+    throw new Error("Failed to get canvas context");
+  }
+
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return { pixels: ctx.getImageData(0, 0, width, height).data, width, height };
+}
+
+// =============================================================================
+// Worker
+// =============================================================================
+
+let worker: Worker | null = null;
+let nextRequestId = 1;
+const pending = new Map<
+  number,
+  { resolve: (field: WindField) => void; reject: (err: Error) => void }
+>();
+
+const canUseWorker = () =>
+  typeof Worker !== "undefined" && typeof OffscreenCanvas !== "undefined";
+
+function getWorker(): Worker {
+  if (!worker) {
+    worker = new Worker(new URL("./windField.worker.ts", import.meta.url), { type: "module" });
+
+    worker.onmessage = (event: MessageEvent<WindFieldResponse>) => {
+      const message = event.data;
+      const request = pending.get(message.id);
+      if (!request) return; // Cancelled
+      pending.delete(message.id);
+
+      if (message.type === "field") {
+        request.resolve(message.field);
+      } else {
+        const error = new Error(message.error.message);
+        error.name = message.error.name;
+        request.reject(error);
+      }
+    };
+
+    // A crashed worker fails everything in flight; the next load starts a new one
+    worker.onerror = (event) => {
+      pending.forEach(({ reject }) => reject(new Error(event.message || "Wind worker failed")));
+      pending.clear();
+      worker?.terminate();
+      worker = null;
+    };
+  }
+  return worker;
+}
+
+function loadInWorker(url: string, options: LoadWindFieldOptions): Promise<WindField> {
+  const { bounds, encoding, format = "png", projection = null, signal } = options;
+  const id = nextRequestId++;
+  const target = getWorker();
+
+  return new Promise<WindField>((resolve, reject) => {
+    const onAbort = () => {
+      if (!pending.delete(id)) return;
+      target.postMessage({ type: "cancel", id } satisfies WindFieldRequest);
+      reject(abortError());
+    };
+
+    pending.set(id, {
+      resolve: (field) => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve(field);
+      },
+      reject: (err) => {
+        signal?.removeEventListener("abort", onAbort);
+        reject(err);
+      },
+    });
+    signal?.addEventListener("abort", onAbort, { once: true });
+    target.postMessage({
+      type: "decode",
+      id,
+      url,
+      bounds,
+      encoding,
+      format,
+      projection,
+    } satisfies WindFieldRequest);
+  });
+}
+
+// =============================================================================
+// Main-Thread Fallback
+// =============================================================================
+
+async function loadOnMainThread(url: string, options: LoadWindFieldOptions): Promise<WindField> {
+  const { bounds, encoding, format = "png", projection = null, signal } = options;
+  const blob = await fetchBlob(url, { signal, label: "wind data" });
+  if (format === "binary") {
+    const field = await decodeWindBinary(blob, bounds, projection);
+    if (signal?.aborted) throw abortError();
+    return field;
+  }
+
+  const bitmap = await createImageBitmap(blob);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) {
+    bitmap.close();
+    throw new Error("Failed to get canvas context");
+  }
+
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  const { data, width, height } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  if (signal?.aborted) throw abortError();
+
+  return decodeWindField(data, width, height, bounds, createWindDecoder(encoding), projection);
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Fetch and decode a wind file into a WindField (off the main thread when possible).
+ * Rejects with an AbortError when `signal` aborts.
+ */
+export function loadWindField(url: string, options: LoadWindFieldOptions): Promise<WindField> {
+  if (options.signal?.aborted) return Promise.reject(abortError());
+  return canUseWorker() ? loadInWorker(url, options) : loadOnMainThread(url, options);
+}
@@ -0,0 +1,118 @@
+/**
+ * Wind Levels
+ *
+ * Vertical levels the wind pipeline can publish (10 m surface, 80 m hub
+ * height, 850 mb, 250 mb jet stream), each with its own files and a display
+ * style: color scale range and particle speed. Metadata without a `levels`
+ * list is treated as a single 10 m level.
+ */
+
+import type { WindEncodingBlock } from "@/lib/windEncoding";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Entry of the `levels` list in latest_wind.json */
+export interface WindLevelBlock {
+  id: string; // "10m", "80m", "850mb", "250mb"
+  name?: string; // Picker label (defaults per id)
+  filename_pattern: string; // "wind_250mb_f{forecast}.png"
+  encoding?: WindEncodingBlock; // Overrides the top-level encoding (e.g. a wider range aloft)
+  max_speed?: number; // Top of the color scale in m/s
+}
+
+export type RgbColor = [number, number, number];
+
+export interface WindLevelStyle {
+  maxSpeed: number; // m/s at the top of the color scale
+  colors: RgbColor[]; // Evenly spaced from 0 to maxSpeed
+  speedScale: number; // Multiplier on particle speed, so fast levels stay readable
+}
+
+export interface WindLevel {
+  id: string;
+  name: string;
+  filenamePattern: string;
+  encoding: WindEncodingBlock | undefined;
+  style: WindLevelStyle;
+}
+
+export const DEFAULT_WIND_LEVEL = "10m";
+
+// =============================================================================
+// Styles
+// =============================================================================
+
+// Muted scale for near-surface wind (cyan through dark red)
+const SURFACE_COLORS: RgbColor[] = [
+  [100, 180, 200],
+  [120, 200, 180],
+  [160, 210, 160],
+  [200, 220, 140],
+  [230, 210, 120],
+  [240, 180, 100],
+  [240, 140, 90],
+  [230, 100, 80],
+  [210, 70, 70],
+  [180, 50, 60],
+];
+
+// Jet stream scale: blues for the background flow, magenta/white in jet streaks
+const JET_COLORS: RgbColor[] = [
+  [70, 90, 150],
+  [80, 130, 190],
+  [100, 180, 210],
+  [130, 210, 180],
+  [200, 220, 130],
+  [240, 190, 100],
+  [240, 130, 90],
+  [220, 80, 120],
+  [200, 80, 200],
+  [240, 200, 250],
+];
+
+const LEVEL_DEFAULTS: Record<string, { name: string; style: WindLevelStyle }> = {
+  "10m": { name: "10 m (surface)", style: { maxSpeed: 40, colors: SURFACE_COLORS, speedScale: 1 } },
+  "80m": { name: "80 m (hub height)", style: { maxSpeed: 50, colors: SURFACE_COLORS, speedScale: 0.8 } },
+  "850mb": { name: "850 mb", style: { maxSpeed: 60, colors: SURFACE_COLORS, speedScale: 0.7 } },
+  "250mb": { name: "250 mb (jet stream)", style: { maxSpeed: 100, colors: JET_COLORS, speedScale: 0.4 } },
+};
+
+// =============================================================================
+// Levels From Metadata
+// =============================================================================
+
+/**
+ * Levels published in the metadata (a single 10 m level when none are listed)
+ */
+export function windLevelsFromMetadata(meta: {
+  levels?: WindLevelBlock[];
+  tiles: { filename_pattern: string };
+  encoding?: WindEncodingBlock;
+}): WindLevel[] {
+  const blocks: WindLevelBlock[] = meta.levels?.length
+    ? meta.levels
+    : [{ id: DEFAULT_WIND_LEVEL, filename_pattern: meta.tiles.filename_pattern }];
+
+  return blocks.map((block) => {
+    const defaults = LEVEL_DEFAULTS[block.id] ?? LEVEL_DEFAULTS[DEFAULT_WIND_LEVEL];
+    return {
+      id: block.id,
+      name: block.name ?? LEVEL_DEFAULTS[block.id]?.name ?? block.id,
+      filenamePattern: block.filename_pattern,
+      encoding: block.encoding ?? meta.encoding,
+      style: {
+        ...defaults.style,
+        maxSpeed: block.max_speed ?? defaults.style.maxSpeed,
+      },
+    };
+  });
+}
+
+/**
+ * The requested level, else the metadata's first level
+ */
+export function resolveWindLevel(levels: WindLevel[], id: string | undefined): WindLevel {
+  return levels.find((level) => level.id === id) ?? levels[0];
+}
@@ -0,0 +1,245 @@
+/**
+ * Wind Pyramid
+ *
+ * z/x/y tiled wind data (Web Mercator, like map tiles) for zoomed-in views.
+ * Picks the level and tile range covering a viewport, and stitches the
+ * loaded tiles into one contiguous WindField so sampling and particle
+ * motion cross tile seams like any other cell boundary.
+ */
+
+import type { WindField, WindFieldBounds } from "@/lib/windField";
+import type { WebMercatorProjection } from "@/lib/projection";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** `pyramid` block of latest_wind.json */
+export interface WindPyramidBlock {
+  url_template: string; // ".../{forecast}/{z}/{x}/{y}.png", optionally with {level}
+  tile_size: number; // Pixels per tile edge
+  min_zoom: number; // Map zoom from which tiles replace the single full-domain file
+  max_zoom: number; // Deepest tile level
+  bounds?: WindFieldBounds; // Extent with data; no tiles are requested outside it
+}
+
+export interface WindViewport {
+  bounds: WindFieldBounds;
+  zoom: number; // Map zoom
+}
+
+export interface TileRange {
+  z: number;
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+}
+
+export interface TileCoord {
+  z: number;
+  x: number;
+  y: number;
+}
+
+// Enough to cover a large screen two levels above the map zoom
+const MAX_TILES = 16;
+
+// Map zoom z shows 512 px per world at z, so 256 px tiles match screen pixels one level deeper
+const ZOOM_OFFSET = 1;
+
+const DEG = Math.PI / 180;
+
+// =============================================================================
+// Tile Math
+// =============================================================================
+
+/**
+ * Fractional tile coordinate of a longitude/latitude at level z
+ */
+export function lngLatToTile(lng: number, lat: number, z: number): { x: number; y: number } {
+  const scale = Math.pow(2, z);
+  const sin = Math.sin(Math.max(-85.0511, Math.min(85.0511, lat)) * DEG);
+  return {
+    x: ((lng + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale,
+  };
+}
+
+/**
+ * Longitude/latitude box of a tile
+ */
+export function tileBounds({ z, x, y }: TileCoord): WindFieldBounds {
+  const scale = Math.pow(2, z);
+  const lat = (tileY: number) => Math.atan(Math.sinh(Math.PI - (2 * Math.PI * tileY) / scale)) / DEG;
+  return {
+    west: (x / scale) * 360 - 180,
+    east: ((x + 1) / scale) * 360 - 180,
+    north: lat(y),
+    south: lat(y + 1),
+  };
+}
+
+function rangeAt(bounds: WindFieldBounds, z: number): TileRange {
+  const last = Math.pow(2, z) - 1;
+  const clamp = (value: number) => Math.min(last, Math.max(0, Math.floor(value)));
+  const northWest = lngLatToTile(bounds.west, bounds.north, z);
+  const southEast = lngLatToTile(bounds.east, bounds.south, z);
+  return {
+    z,
+    minX: clamp(northWest.x),
+    maxX: clamp(southEast.x),
+    minY: clamp(northWest.y),
+    maxY: clamp(southEast.y),
+  };
+}
+
+const tileCount = (range: TileRange) =>
+  (range.maxX - range.minX + 1) * (range.maxY - range.minY + 1);
+
+/**
+ * Tiles covering the viewport (clipped to the data extent), or null when the
+ * map is zoomed out past the pyramid or the view misses the data entirely.
+ * Steps up a level while the range would exceed MAX_TILES.
+ */
+export function chooseTileRange(
+  pyramid: WindPyramidBlock | null | undefined,
+  viewport: WindViewport | null | undefined
+): TileRange | null {
+  if (!pyramid || !viewport || viewport.zoom < pyramid.min_zoom) return null;
+
+  let bounds = viewport.bounds;
+  if (pyramid.bounds) {
+    bounds = {
+      west: Math.max(bounds.west, pyramid.bounds.west),
+      east: Math.min(bounds.east, pyramid.bounds.east),
+      south: Math.max(bounds.south, pyramid.bounds.south),
+      north: Math.min(bounds.north, pyramid.bounds.north),
+    };
+    if (bounds.west >= bounds.east || bounds.south >= bounds.north) return null;
+  }
+
+  let z = Math.min(pyramid.max_zoom, Math.max(0, Math.round(viewport.zoom) + ZOOM_OFFSET));
+  let range = rangeAt(bounds, z);
+  while (z > 0 && tileCount(range) > MAX_TILES) {
+    z--;
+    range = rangeAt(bounds, z);
+  }
+  return range;
+}
+
+/**
+ * Every tile in a range, row by row from the north-west
+ */
+export function tilesInRange(range: TileRange): TileCoord[] {
+  const tiles: TileCoord[] = [];
+  for (let y = range.minY; y <= range.maxY; y++) {
+    for (let x = range.minX; x <= range.maxX; x++) {
+      tiles.push({ z: range.z, x, y });
+    }
+  }
+  return tiles;
+}
+
+export const tileRangeKey = (range: TileRange) =>
+  `${range.z}/${range.minX}-${range.maxX}/${range.minY}-${range.maxY}`;
+
+/**
+ * URL of one tile of one forecast hour (and wind level)
+ */
+export function tileUrl(
+  pyramid: WindPyramidBlock,
+  forecast: string,
+  { z, x, y }: TileCoord,
+  level?: string
+): string {
+  return pyramid.url_template
+    .replace("{level}", level ?? "")
+    .replace("{forecast}", forecast)
+    .replace("{z}", String(z))
+    .replace("{x}", String(x))
+    .replace("{y}", String(y));
+}
+
+/**
+ * Web Mercator grid of one tile, or of a whole range
+ */
+export function tileProjection(
+  range: Pick<TileRange, "z" | "minX" | "minY">,
+  tileSize: number
+): WebMercatorProjection {
+  return {
+    type: "web_mercator",
+    zoom: range.z,
+    tileSize,
+    originX: range.minX * tileSize,
+    originY: range.minY * tileSize,
+    gridRelativeWind: false,
+  };
+}
+
+// =============================================================================
+// Mosaic
+// =============================================================================
+
+/**
+ * Stitch a range's tiles (in tilesInRange order, null = missing) into one
+ * field. Missing or mis-sized tiles stay masked out.
+ */
+export function mosaicWindTiles(
+  range: TileRange,
+  tileSize: number,
+  tiles: (WindField | null)[]
+): WindField {
+  const columns = range.maxX - range.minX + 1;
+  const rows = range.maxY - range.minY + 1;
+  const width = columns * tileSize;
+  const height = rows * tileSize;
+  const count = width * height;
+
+  const u = new Float32Array(count);
+  const v = new Float32Array(count);
+  const speed = new Float32Array(count);
+  const gust = tiles.some((tile) => tile?.gust) ? new Float32Array(count) : null;
+  const mask = new Uint8Array(count);
+
+  tiles.forEach((tile, index) => {
+    if (!tile) return;
+    if (tile.width !== tileSize || tile.height !== tileSize) {
+      console.warn(`Skipping wind tile with size ${tile.width}x${tile.height} (expected ${tileSize})`);
+      return;
+    }
+
+    const left = (index % columns) * tileSize;
+    const top = Math.floor(index / columns) * tileSize;
+    for (let row = 0; row < tileSize; row++) {
+      const from = row * tileSize;
+      const to = (top + row) * width + left;
+      u.set(tile.u.subarray(from, from + tileSize), to);
+      v.set(tile.v.subarray(from, from + tileSize), to);
+      speed.set(tile.speed.subarray(from, from + tileSize), to);
+      gust?.set((tile.gust ?? tile.speed).subarray(from, from + tileSize), to);
+      mask.set(tile.mask.subarray(from, from + tileSize), to);
+    }
+  });
+
+  const northWest = tileBounds({ z: range.z, x: range.minX, y: range.minY });
+  const southEast = tileBounds({ z: range.z, x: range.maxX, y: range.maxY });
+
+  return {
+    width,
+    height,
+    bounds: {
+      west: northWest.west,
+      east: southEast.east,
+      south: southEast.south,
+      north: northWest.north,
+    },
+    projection: tileProjection(range, tileSize),
+    u,
+    v,
+    speed,
+    gust,
+    mask,
+  };
+}
@@ -20,35 +20,11 @@ import {
 } from '@shopify/react-native-skia';
 import type { SkPath } from '@shopify/react-native-skia';
 import type { Camera } from '@rnmapbox/maps';
-
-interface WindData {
-  // Grid dimensions
-  width: number;
-  height: number;
-  // Wind components as Uint8Array (RGBA encoded)
-  data: Uint8Array;
-  // Geographic bounds
-  bounds: {
-    west: number;
-    east: number;
-    north: number;
-    south: number;
-  };
-}
-
-interface Particle {
-  id: number;
-  x: number; // pixel position in wind grid
-  y: number;
-  lng: number;
-  lat: number;
-  age: number;
-  maxAge: number;
-  trail: { lng: number; lat: number }[];
-}
+import type { WindField } from '../lib/windField';
+import { ParticleSimulation } from '../lib/particleSimulation';
 
 interface SkiaWindParticlesProps {
-  windData: WindData | null;
+  windData: WindField | null;
   mapCamera: Camera | null;
   mapBounds: { ne: [number, number]; sw: [number, number] } | null;
   screenWidth: number;
@@ -59,6 +35,8 @@ interface SkiaWindParticlesProps {
   maxAge?: number;
   color?: string;
   fadeColor?: string;
+  /** Fixed random seed for reproducible particle placement */
+  seed?: number;
 }
 
 // Convert lat/lng to screen coordinates
@@ -83,36 +61,6 @@ function projectToScreen(
   return { x, y };
 }
 
-// Get particle count based on zoom
-function getParticleCount(zoom: number, baseCount: number): number {
-  if (zoom < 4) return baseCount;
-  if (zoom < 6) return Math.floor(baseCount * 0.5);
-  if (zoom < 8) return Math.floor(baseCount * 0.2);
-  if (zoom < 10) return Math.floor(baseCount * 0.08);
-  if (zoom < 12) return Math.floor(baseCount * 0.04);
-  return Math.floor(baseCount * 0.025);
-}
-
-// Get speed factor based on zoom
-function getSpeedFactor(zoom: number): number {
-  if (zoom < 4) return 0.08;
-  if (zoom < 6) return 0.06;
-  if (zoom < 8) return 0.03;
-  if (zoom < 10) return 0.015;
-  if (zoom < 12) return 0.006;
-  return 0.002;
-}
-
-// Get trail length based on zoom
-function getTrailLength(zoom: number, baseLength: number): number {
-  if (zoom < 4) return baseLength;
-  if (zoom < 6) return Math.floor(baseLength * 0.8);
-  if (zoom < 8) return Math.floor(baseLength * 0.6);
-  if (zoom < 10) return Math.floor(baseLength * 0.4);
-  if (zoom < 12) return Math.floor(baseLength * 0.25);
-  return Math.max(3, Math.floor(baseLength * 0.15));
-}
-
 // Color scale for wind speed
 const COLOR_SCALE = [
   [100, 200, 255], // slow - cyan
@@ -148,8 +96,9 @@ export function SkiaWindParticles({
   maxAge = 80,
   color = 'cyan',
   fadeColor = 'transparent',
+  seed,
 }: SkiaWindParticlesProps) {
-  const particlesRef = useRef<Particle[]>([]);
+  const [simulation] = useState(() => new ParticleSimulation({ seed: seed ?? null }));
   const [paths, setPaths] = useState<{ 
     path: SkPath; 
     headColor: string; 
@@ -159,101 +108,21 @@ export function SkiaWindParticles({
   const animationRef = useRef<number | null>(null);
   const zoom = mapCamera?.zoom ?? 3;
 
-  // Initialize particles
-  const initParticles = useCallback(() => {
-    if (!windData || !mapBounds) return;
-
-    const { width, height, bounds } = windData;
-    const particleCount = getParticleCount(zoom, baseParticleCount);
-    const particles: Particle[] = [];
-
-    for (let i = 0; i < particleCount; i++) {
-      const lng = bounds.west + Math.random() * (bounds.east - bounds.west);
-      const lat = bounds.south + Math.random() * (bounds.north - bounds.south);
-      const x = ((lng - bounds.west) / (bounds.east - bounds.west)) * width;
-      const y = ((bounds.north - lat) / (bounds.north - bounds.south)) * height;
-
-      particles.push({
-        id: i,
-        x,
-        y,
-        lng,
-        lat,
-        age: Math.floor(Math.random() * maxAge),
-        maxAge: maxAge + Math.floor(Math.random() * 30) - 15,
-        trail: [{ lng, lat }],
-      });
-    }
-
-    particlesRef.current = particles;
-  }, [windData, mapBounds, zoom, baseParticleCount, maxAge]);
-
-  // Update particles
-  const updateParticles = useCallback(() => {
-    if (!windData || !mapBounds) return;
-
-    const { data, width, height, bounds } = windData;
-    const particles = particlesRef.current;
-    const speedFactor = getSpeedFactor(zoom);
-    const currentTrailLength = getTrailLength(zoom, trailLength);
-
-    particles.forEach((particle) => {
-      const px = Math.floor(particle.x);
-      const py = Math.floor(particle.y);
-
-      if (px >= 0 && px < width && py >= 0 && py < height) {
-        const idx = (py * width + px) * 4;
-        const r = data[idx];
-        const g = data[idx + 1];
-        const a = data[idx + 3];
-
-        if (a > 0) {
-          // Decode wind components
-          const u = (r / 255) * 100 - 50;
-          const v = (g / 255) * 100 - 50;
-
-          // Update position
-          particle.x += u * speedFactor;
-          particle.y -= v * speedFactor;
-
-          // Update lat/lng
-          particle.lng = bounds.west + (particle.x / width) * (bounds.east - bounds.west);
-          particle.lat = bounds.north - (particle.y / height) * (bounds.north - bounds.south);
-
-          // Add to trail
-          particle.trail.unshift({ lng: particle.lng, lat: particle.lat });
-          if (particle.trail.length > currentTrailLength) {
-            particle.trail = particle.trail.slice(0, currentTrailLength);
-          }
-        }
-      }
-
-      particle.age++;
-
-      // Reset if needed
-      if (
-        particle.age > particle.maxAge ||
-        particle.x < 0 || particle.x >= width ||
-        particle.y < 0 || particle.y >= height
-      ) {
-        const lng = bounds.west + Math.random() * (bounds.east - bounds.west);
-        const lat = bounds.south + Math.random() * (bounds.north - bounds.south);
-        particle.x = ((lng - bounds.west) / (bounds.east - bounds.west)) * width;
-        particle.y = ((bounds.north - lat) / (bounds.north - bounds.south)) * height;
-        particle.lng = lng;
-        particle.lat = lat;
-        particle.age = 0;
-        particle.maxAge = maxAge + Math.floor(Math.random() * 30) - 15;
-        particle.trail = [{ lng, lat }];
-      }
+  // Zoom scaling, spawning and advection live in the simulation
+  useEffect(() => {
+    simulation.setOptions({
+      particleCount: baseParticleCount,
+      trailLength,
+      maxAge,
+      seed: seed ?? null,
     });
-  }, [windData, mapBounds, zoom, trailLength, maxAge]);
+  }, [simulation, baseParticleCount, trailLength, maxAge, seed]);
 
   // Build Skia paths with gradient info
   const buildPaths = useCallback(() => {
     if (!mapBounds) return;
 
-    const particles = particlesRef.current;
+    const { count, trail, trailCount, speed } = simulation;
     const newPaths: { 
       path: SkPath; 
       headColor: string; 
@@ -261,60 +130,57 @@ export function SkiaWindParticles({
       tailPos: { x: number; y: number };
     }[] = [];
 
-    particles.forEach((p) => {
-      if (p.trail.length < 2) return;
+    for (let p = 0; p < count; p++) {
+      if (trailCount[p] < 2) continue;
 
       const path = Skia.Path.Make();
-      let started = false;
       let headPos: { x: number; y: number } | null = null;
       let tailPos: { x: number; y: number } | null = null;
 
-      p.trail.forEach((point, i) => {
+      for (let i = 0; i < trailCount[p]; i++) {
+        const point = simulation.trailIndex(p, i);
         const screen = projectToScreen(
-          point.lng,
-          point.lat,
+          trail[point],
+          trail[point + 1],
           mapBounds,
           screenWidth,
           screenHeight
         );
 
         if (screen) {
-          if (!started) {
+          if (!headPos) {
             path.moveTo(screen.x, screen.y);
             headPos = screen;
-            started = true;
           } else {
             path.lineTo(screen.x, screen.y);
           }
           tailPos = screen; // Last valid point becomes tail
         }
-      });
+      }
 
-      if (started && headPos && tailPos && (headPos.x !== tailPos.x || headPos.y !== tailPos.y)) {
-        // Get wind speed for color
-        const magnitude = Math.sqrt(
-          Math.pow(p.trail[0].lng - p.trail[1].lng, 2) +
-          Math.pow(p.trail[0].lat - p.trail[1].lat, 2)
-        ) * 1000;
-        
+      if (headPos && tailPos && (headPos.x !== tailPos.x || headPos.y !== tailPos.y)) {
         newPaths.push({
           path,
-          headColor: getColorForSpeed(magnitude * 10),
+          headColor: getColorForSpeed(speed[p]),
           headPos,
           tailPos,
         });
       }
-    });
+    }
 
     setPaths(newPaths);
-  }, [mapBounds, screenWidth, screenHeight]);
+  }, [simulation, mapBounds, screenWidth, screenHeight]);
 
-  // Initialize on mount and when wind data changes
+  // Initialize on mount and when wind data or the view changes
   useEffect(() => {
     if (enabled && windData && mapBounds) {
-      initParticles();
+      const [east, north] = mapBounds.ne;
+      const [west, south] = mapBounds.sw;
+      simulation.setView({ bounds: { west, east, south, north }, zoom });
+      simulation.setField(windData);
+      simulation.reset();
     }
-  }, [enabled, windData, mapBounds, initParticles]);
+  }, [enabled, windData, mapBounds, zoom, simulation]);
 
   // Animation loop
   useEffect(() => {
@@ -329,7 +195,7 @@ export function SkiaWindParticles({
 
     const animate = (currentTime: number) => {
       if (currentTime - lastTime >= frameInterval) {
-        updateParticles();
+        simulation.step();
         buildPaths();
         lastTime = currentTime;
       }
@@ -343,7 +209,7 @@ export function SkiaWindParticles({
         cancelAnimationFrame(animationRef.current);
       }
     };
-  }, [enabled, windData, mapBounds, updateParticles, buildPaths]);
+  }, [enabled, windData, mapBounds, simulation, buildPaths]);
 
   if (!enabled || paths.length === 0) {
     return null;
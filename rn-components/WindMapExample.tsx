@@ -9,22 +9,13 @@ import React, { useState, useRef, useCallback, useEffect } from 'react';
 import { StyleSheet, View, useWindowDimensions } from 'react-native';
 import MapboxGL from '@rnmapbox/maps';
 import { SkiaWindParticles } from './SkiaWindParticles';
+import { createWindDecoder } from '../lib/windEncoding';
+import { decodeWindField } from '../lib/windField';
+import type { WindField } from '../lib/windField';
 
 // Set your Mapbox token
 MapboxGL.setAccessToken('YOUR_MAPBOX_TOKEN');
 
-interface WindData {
-  width: number;
-  height: number;
-  data: Uint8Array;
-  bounds: {
-    west: number;
-    east: number;
-    north: number;
-    south: number;
-  };
-}
-
 export function WindMapExample() {
   const { width, height } = useWindowDimensions();
   const mapRef = useRef<MapboxGL.MapView>(null);
@@ -32,7 +23,7 @@ export function WindMapExample() {
   
   const [camera, setCamera] = useState<{ zoom: number; center: [number, number] } | null>(null);
   const [mapBounds, setMapBounds] = useState<{ ne: [number, number]; sw: [number, number] } | null>(null);
-  const [windData, setWindData] = useState<WindData | null>(null);
+  const [windData, setWindData] = useState<WindField | null>(null);
   const [windEnabled, setWindEnabled] = useState(true);
 
   // Fetch wind data from your S3 bucket
@@ -61,17 +52,16 @@ export function WindMapExample() {
         mockData[i + 3] = 255; // alpha
       }
       
-      setWindData({
-        width: mockWidth,
-        height: mockHeight,
-        data: mockData,
-        bounds: {
-          west: -125,
-          east: -65,
-          north: 50,
-          south: 24,
-        },
-      });
+      // Decode once into u/v/speed grids (default -50..50 m/s encoding)
+      setWindData(
+        decodeWindField(
+          mockData,
+          mockWidth,
+          mockHeight,
+          { west: -125, east: -65, north: 50, south: 24 },
+          createWindDecoder()
+        )
+      );
     } catch (error) {
       console.error('Failed to fetch wind data:', error);
     }